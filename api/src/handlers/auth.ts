@@ -2,19 +2,31 @@ import { HelloRequest, HelloResponse } from '../types'
 
 import {
     getAuthfromCookies,
-    saveAuthCookie,
+    updateAuthCookie,
     clearAuthCookie,
 } from '../lib/auth'
 
-import { Auth, Claims } from '@hellocoop/definitions'
+import { getBearerToken } from '../lib/accessToken'
+
+import { Auth } from '@hellocoop/definitions'
 
 // export type AuthHelloRequest = HelloRequest & {
 //     auth?: Auth
 // }
 
-export type AuthUpdates = Claims & {
-    [key: string]: any // Allow arbitrary optional properties
-}
+// the profile claims updateAuth changes -- verified, session and app claims
+// such as email, sid, auth_time and lastActive only come from a login
+export const EDITABLE_CLAIMS = [
+    'name',
+    'nickname',
+    'given_name',
+    'family_name',
+    'picture',
+] as const
+
+export type AuthUpdates = Partial<
+    Record<(typeof EDITABLE_CLAIMS)[number], string>
+>
 
 export const handleAuth = async function (
     req: HelloRequest,
@@ -38,15 +50,16 @@ export const updateAuth = async function (
     res: HelloResponse,
     authUpdates: AuthUpdates,
 ): Promise<Auth | null> {
+    // a Bearer token is not a session, and must not become a cookie
+    if (getBearerToken(req)) return null
     const auth = await getAuthfromCookies(req, res)
     if (!auth.isLoggedIn) return auth
-    const newAuth = {
-        ...auth,
-        ...authUpdates,
-        sub: auth.sub,
-        iat: auth.iat,
+    const newAuth = { ...auth }
+    for (const claim of EDITABLE_CLAIMS) {
+        const value = authUpdates?.[claim]
+        if (typeof value === 'string') newAuth[claim] = value
     }
-    const success = await saveAuthCookie(res, newAuth)
+    const success = await updateAuthCookie(req, res, newAuth)
     if (success) return newAuth
     return null
 }
@@ -0,0 +1,46 @@
+import { HelloRequest, HelloResponse } from '../types'
+import config from '../lib/config'
+import { verifyLogoutToken } from '../lib/logoutToken'
+import { emitEvent } from '../lib/events'
+import { recordLogout } from '../lib/logoutList'
+
+// OpenID Connect Back-Channel Logout -- Hellō POSTs a logout_token
+// when the user logs out or revokes the app
+const handleBackchannelLogout = async (
+    req: HelloRequest,
+    res: HelloResponse,
+    params: { [key: string]: string },
+) => {
+    res.setHeader('Cache-Control', 'no-store')
+
+    const result = await verifyLogoutToken(params.logout_token)
+    if ('error' in result) {
+        console.error('invalid logout token', result)
+        res.status(400)
+        return res.json(result)
+    }
+    const { sub, sid } = result
+    emitEvent('backchannel_logout', req, { sub, sid })
+
+    try {
+        // Bearer tokens, and sessions that can't be destroyed, are rejected
+        // when next used
+        await recordLogout({ sub, sid })
+        if (config.sessionStore?.destroyMatching)
+            await config.sessionStore.destroyMatching({ sub, sid })
+        if (config.logoutSync) {
+            const e = await req.logoutSyncWrapper(config.logoutSync, {
+                sub,
+                sid,
+            })
+            if (e) console.log(new Error('logoutSync faulted'), e)
+        }
+    } catch (e) {
+        console.error('backchannel logout faulted', e)
+        res.status(500)
+        return res.json({ error: 'server_error' })
+    }
+    res.status(200).send('')
+}
+
+export default handleBackchannelLogout
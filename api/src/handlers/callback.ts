@@ -5,9 +5,17 @@ import {
     errorPage,
     ErrorPageParams,
     sameSiteCallback,
+    sameSiteRedirect,
 } from '@hellocoop/helper-server'
-import { saveAuthCookie, clearAuthCookie } from '../lib/auth'
+import {
+    saveAuthCookie,
+    clearAuthCookie,
+    destroyAuthSession,
+    getAuthfromCookies,
+} from '../lib/auth'
 import { performTokenExchange } from './exchange'
+import { safeTargetURI } from '../lib/redirect'
+import { emitEvent } from '../lib/events'
 
 // export const getCallbackRequest = (req: HelloRequest): CallbackRequest => {
 //     return {
@@ -24,10 +32,15 @@ import { performTokenExchange } from './exchange'
 // }
 
 const sendErrorPage = (
+    req: HelloRequest,
     error: Record<string, any>,
     target_uri: string,
     res: HelloResponse,
 ) => {
+    emitEvent('login_failed', req, {
+        error: error.error,
+        error_description: error.error_description,
+    })
     clearAuthCookie(res)
 
     // note that we send errors to the target_uri if it was passed in the original request
@@ -54,16 +67,26 @@ const sendErrorPage = (
 }
 
 const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
-    const { code, error, same_site, wildcard_domain, app_name } = req.query
-
-    if (config.sameSiteStrict && !same_site)
+    // a form_post response arrives in the body, and the OIDC cookie
+    // is SameSite=None so no bounce is needed to get it
+    const formPost = req.method === 'POST'
+    const params = formPost ? req.body : req.query
+    const { code, error, same_site, wildcard_domain, app_name } = params
+    const state = (
+        Array.isArray(params.state) ? params.state[0] : params.state
+    ) as string | undefined
+
+    if (config.sameSiteStrict && !same_site && !formPost)
         // we need to bounce so we get cookies
         return res.send(sameSiteCallback())
 
-    const oidcState = await getOidc(req, res)
+    // no cookie for the state means a response we did not ask for,
+    // or one for a login that has expired
+    const oidcState = await getOidc(req, res, state)
 
     if (!oidcState)
         return sendErrorPage(
+            req,
             {
                 error: 'invalid_request',
                 error_description: 'OpenID Connect cookie lost',
@@ -72,13 +95,33 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
             res,
         )
 
-    const { code_verifier, nonce, redirect_uri } = oidcState
-
-    let { target_uri } = oidcState
+    const { code_verifier, nonce, redirect_uri, max_age } = oidcState
+    // checked again as the state may predate the allowedRedirects policy
+    let target_uri = safeTargetURI(oidcState.target_uri, redirect_uri) || ''
+
+    // a prompt=none refresh that can't be completed silently, or that
+    // returns another account, leaves the current session as it is
+    const refresh = oidcState.prompt === 'none'
+    const refreshFailed = (e: {
+        error: string
+        error_description?: string
+    }) => {
+        emitEvent('login_failed', req, {
+            error: e.error,
+            error_description: e.error_description,
+            prompt: 'none',
+        })
+        clearOidcCookie(res, state)
+        return res.redirect(target_uri || config.routes.loggedIn || '/')
+    }
 
-    if (error) return sendErrorPage(req.query, target_uri, res)
+    if (error) {
+        if (refresh) return refreshFailed(params)
+        return sendErrorPage(req, params, target_uri, res)
+    }
     if (!code)
         return sendErrorPage(
+            req,
             {
                 error: 'invalid_request',
                 error_description: 'Missing code parameter',
@@ -88,6 +131,7 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
         )
     if (Array.isArray(code))
         return sendErrorPage(
+            req,
             {
                 error: 'invalid_request',
                 error_description: 'Received more than one code',
@@ -98,6 +142,7 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
 
     if (!code_verifier) {
         sendErrorPage(
+            req,
             {
                 error: 'invalid_request',
                 error_description: 'Missing code_verifier from session',
@@ -109,7 +154,9 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
     }
 
     try {
-        clearOidcCookie(res) // clear cookie so we don't try to use code again
+        clearOidcCookie(res, state) // clear cookie so we don't try to use code again
+
+        const session = refresh ? await getAuthfromCookies(req) : undefined
 
         // Use shared token exchange logic
         const result = await performTokenExchange({
@@ -118,14 +165,20 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
             nonce,
             redirect_uri,
             target_uri,
+            max_age,
+            sub: session?.isLoggedIn ? session.sub : undefined,
             loginSyncWrapper: req.loginSyncWrapper,
         })
 
         if ('error' in result) {
-            return sendErrorPage(result, target_uri, res)
+            if (refresh) return refreshFailed(result)
+            return sendErrorPage(req, result, target_uri, res)
         }
 
         const { auth } = result
+        // a refresh updates the claims of the session, and sessionMaxAge
+        // still counts from when it started
+        if (session?.isLoggedIn && auth.isLoggedIn) auth.iat = session.iat
         target_uri = target_uri || config.routes.loggedIn || '/'
 
         if (wildcard_domain) {
@@ -146,11 +199,22 @@ const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
             target_uri = config.apiRoute + '?' + queryString
         }
 
+        // a new login always starts a new session
+        await destroyAuthSession(req)
         await saveAuthCookie(res, auth)
-        if (config.sameSiteStrict) res.json({ target_uri })
-        else res.redirect(target_uri)
+        emitEvent('login_succeeded', req, {
+            sub: auth.isLoggedIn ? auth.sub : undefined,
+        })
+        if (config.sameSiteStrict) {
+            if (formPost) res.send(sameSiteRedirect(target_uri))
+            else res.json({ target_uri })
+        } else res.redirect(target_uri)
     } catch (error: any) {
-        clearOidcCookie(res)
+        emitEvent('login_failed', req, {
+            error: 'server_error',
+            error_description: error.message,
+        })
+        clearOidcCookie(res, state)
         return res.status(500).send(error.message)
     }
 }
@@ -2,20 +2,26 @@
 // implements OpenID Provider Commands draft-02
 // https://github.com/openid/openid-provider-commands
 
-import {
-    createRemoteJWKSet,
-    decodeJwt,
-    decodeProtectedHeader,
-    jwtVerify,
-} from 'jose'
+import { randomUUID } from 'crypto'
+import { decodeJwt, decodeProtectedHeader, jwtVerify } from 'jose'
 import {
     HelloRequest,
     HelloResponse,
     CommandHandler,
     Command,
     CommandClaims,
+    CommandHandlers,
+    CommandJob,
+    CommandResponses,
+    CommandErrorResponse,
 } from '../types'
 import config from '../lib/config'
+import { getIssuerMetadata, getJWKS } from '../lib/jwks'
+import { createMemoryReplayCache } from '../lib/replayCache'
+import { createMemoryCommandQueue } from '../lib/commandQueue'
+import { createAuditHandlers } from '../lib/audit'
+import { getRequestOrigin } from '../lib/redirect'
+import { emitEvent } from '../lib/events'
 
 const COMMAND_TOKEN_TYP = 'command+jwt'
 
@@ -31,6 +37,16 @@ const REQUIRED_CLAIMS = [
     'tenant',
 ]
 
+const ASYNC_SUFFIX = '_async'
+
+const TENANT_COMMANDS: Command[] = [
+    'audit_tenant',
+    'suspend_tenant',
+    'archive_tenant',
+    'delete_tenant',
+    'invalidate_tenant',
+]
+
 type MetadataResponse = {
     context: {
         iss: string
@@ -42,51 +58,8 @@ type MetadataResponse = {
     aud_sub_required?: boolean
 }
 
-interface CommandIssuer {
-    issuer: string
-    jwks_uri?: string // discovered via .well-known/openid-configuration if not set
-}
-
-// OPs recognized as command issuers -- exported so tests can register issuers
-export const commandIssuers: Record<string, CommandIssuer> = {
-    'http://mockin:3333': {
-        // mock issuer
-        issuer: 'http://mockin:3333',
-    },
-    'http://127.0.0.1:3333': {
-        // test issuer
-        issuer: 'http://127.0.0.1:3333',
-    },
-    'https://issuer.hello.coop': {
-        // production issuer
-        issuer: 'https://issuer.hello.coop',
-        jwks_uri: 'https://issuer.hello.coop/.well-known/jwks.json',
-    },
-}
-
-const jwksCache: Record<string, ReturnType<typeof createRemoteJWKSet>> = {}
-
-const getJWKS = async (issuer: CommandIssuer) => {
-    const cached = jwksCache[issuer.issuer]
-    if (cached) return cached
-    let jwks_uri = issuer.jwks_uri
-    if (!jwks_uri) {
-        const configURL =
-            issuer.issuer.replace(/\/$/, '') +
-            '/.well-known/openid-configuration'
-        const response = await fetch(configURL)
-        if (!response.ok)
-            throw new Error(`could not fetch ${configURL}: ${response.status}`)
-        const json = await response.json()
-        if (!json.jwks_uri)
-            throw new Error(`no jwks_uri in ${configURL} response`)
-        jwks_uri = json.jwks_uri as string
-        issuer.jwks_uri = jwks_uri
-    }
-    const jwks = createRemoteJWKSet(new URL(jwks_uri))
-    jwksCache[issuer.issuer] = jwks
-    return jwks
-}
+// used when config.commandReplayCache is not set
+const memoryReplayCache = createMemoryReplayCache()
 
 type VerifyResult =
     | { claims: CommandClaims }
@@ -112,7 +85,7 @@ const verifyCommandToken = async (
         return invalidRequest('malformed command token')
     }
     if (!iss) return invalidRequest('missing iss claim')
-    const issuer = commandIssuers[iss]
+    const issuer = config.commandIssuers[iss]
     if (!issuer) {
         console.error('commands.verifyCommandToken: unknown issuer', iss)
         return {
@@ -132,7 +105,18 @@ const verifyCommandToken = async (
         if ('nonce' in payload)
             // prohibited to prevent cross-JWT confusion
             return invalidRequest('nonce claim must not be present')
-        return { claims: payload as CommandClaims }
+        const claims = payload as CommandClaims
+        // a Command Token must only be processed once
+        const replayCache = config.commandReplayCache || memoryReplayCache
+        const firstUse = await replayCache.add(
+            `${claims.iss} ${claims.jti}`,
+            claims.exp,
+        )
+        if (!firstUse) {
+            console.error('commands.verifyCommandToken: replayed jti', claims)
+            return invalidRequest('command token has already been used')
+        }
+        return { claims }
     } catch (e) {
         console.error('commands.verifyCommandToken:', e)
         return invalidRequest('command token verification failed')
@@ -145,15 +129,34 @@ const getCommandEndpoint = (req: HelloRequest): string | undefined => {
     if (config.redirectURI && config.redirectURI !== 'not-configured')
         return config.redirectURI
     // HOST is not configured -- derive from the request
-    const headers = req.headers()
-    const host = headers['x-forwarded-host'] || headers['host']
-    if (!host) return undefined
-    const protocol =
-        headers['x-forwarded-proto'] ||
-        (host.startsWith('localhost') || host.startsWith('127.0.0.1')
-            ? 'http'
-            : 'https')
-    return `${protocol}://${host}${config.apiRoute}`
+    const origin = getRequestOrigin(req)
+    if (!origin) return undefined
+    return origin + config.apiRoute
+}
+
+// the built-in audit responders when there is an accountProvider,
+// overridden by handlers registered in config.commands
+const getCommandHandlers = (): CommandHandlers => ({
+    ...(config.accountProvider && createAuditHandlers(config.accountProvider)),
+    ...config.commands,
+})
+
+// commands with a registered handler, plus any declared for the commandHandler
+const getCommandsSupported = (): Command[] => {
+    const registered = Object.keys(getCommandHandlers()) as Command[]
+    if (config.asyncCommands)
+        registered.push(
+            ...registered
+                .filter((command) => !TENANT_COMMANDS.includes(command))
+                .map((command) => (command + ASYNC_SUFFIX) as Command),
+        )
+    return Array.from(
+        new Set<Command>([
+            'metadata',
+            ...registered,
+            ...(config.commandsSupported || []),
+        ]),
+    )
 }
 
 const makeMetadataHandler = (commandEndpoint: string): CommandHandler => {
@@ -165,7 +168,7 @@ const makeMetadataHandler = (commandEndpoint: string): CommandHandler => {
                 tenant,
             },
             command_endpoint: commandEndpoint,
-            commands_supported: config.commandsSupported || ['metadata'],
+            commands_supported: getCommandsSupported(),
             client_id: config.clientId || 'unknown',
         }
         if (config.audSubRequired !== undefined)
@@ -174,6 +177,103 @@ const makeMetadataHandler = (commandEndpoint: string): CommandHandler => {
     }
 }
 
+type CommandResult = {
+    status: number
+    body: Record<string, unknown>
+}
+
+// what any of the CommandHandlers returns
+type CommandHandlerResponse =
+    | CommandResponses[keyof CommandResponses]
+    | CommandErrorResponse
+
+// sub is required in Account Commands and prohibited in Tenant Commands
+const checkSubClaim = (
+    command: Command,
+    claims: CommandClaims,
+): CommandResult | undefined => {
+    const isTenantCommand = TENANT_COMMANDS.includes(command)
+    if (isTenantCommand !== !!claims.sub) return undefined
+    return {
+        status: 400,
+        body: {
+            error: 'invalid_request',
+            error_description: isTenantCommand
+                ? 'sub claim must not be present'
+                : 'missing sub claim',
+        },
+    }
+}
+
+// runs the handler for the command, undefined if there is none
+const runCommandHandler = async (
+    command: Command,
+    claims: CommandClaims,
+): Promise<CommandResult | undefined> => {
+    const handler = getCommandHandlers()[command as keyof CommandHandlers] as
+        | ((
+              claims: CommandClaims,
+          ) => CommandHandlerResponse | Promise<CommandHandlerResponse>)
+        | undefined
+    if (!handler) return undefined
+    const invalid = checkSubClaim(command, claims)
+    if (invalid) return invalid
+    let response: CommandHandlerResponse
+    try {
+        response = await handler(claims)
+    } catch (e) {
+        console.error(`commands: ${command} handler faulted`, e)
+        return { status: 500, body: { error: 'server_error' } }
+    }
+    return {
+        status: response && 'error' in response ? 400 : 200,
+        body: response,
+    }
+}
+
+const getCommandCallbackEndpoint = async (
+    iss: string,
+): Promise<string | undefined> => {
+    const issuer = config.commandIssuers[iss]
+    if (issuer?.command_callback_endpoint)
+        return issuer.command_callback_endpoint
+    const metadata = await getIssuerMetadata(iss)
+    return metadata.command_callback_endpoint as string | undefined
+}
+
+// Runs an Asynchronous Account Command and POSTs the result to the OP.
+// Throws if the result could not be delivered so durable queues can retry.
+export const processCommandJob = async (job: CommandJob) => {
+    const { job_id, claims } = job
+    const command = claims.command.slice(0, -ASYNC_SUFFIX.length) as Command
+    const result = (await runCommandHandler(command, claims)) || {
+        status: 400,
+        body: { error: 'unsupported_command' },
+    }
+    const endpoint = await getCommandCallbackEndpoint(claims.iss)
+    if (!endpoint)
+        throw new Error(`no command_callback_endpoint for ${claims.iss}`)
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            job_id,
+            jti: claims.jti,
+            command: claims.command,
+            tenant: claims.tenant,
+            sub: claims.sub,
+            ...result.body,
+        }),
+    })
+    if (!response.ok)
+        throw new Error(
+            `POST ${endpoint} failed with ${response.status} for job ${job_id}`,
+        )
+}
+
+// used when config.commandQueue is not set
+const memoryCommandQueue = createMemoryCommandQueue(processCommandJob)
+
 const handleCommand = async (
     req: HelloRequest,
     res: HelloResponse,
@@ -212,6 +312,12 @@ const handleCommand = async (
 
     const { claims } = result
     const { command } = claims
+    emitEvent('command_received', req, {
+        command,
+        iss: claims.iss,
+        sub: claims.sub,
+        tenant: claims.tenant,
+    })
 
     // metadata is always handled built-in, sourced from config,
     // so a commandHandler only ever receives the other commands
@@ -219,6 +325,36 @@ const handleCommand = async (
         return makeMetadataHandler(commandEndpoint)(res, claims)
     }
 
+    if (command.endsWith(ASYNC_SUFFIX)) {
+        // queue the registered handler for the command and accept it now
+        const syncCommand = command.slice(0, -ASYNC_SUFFIX.length) as Command
+        if (
+            !config.asyncCommands ||
+            !getCommandHandlers()[syncCommand as keyof CommandHandlers]
+        ) {
+            res.status(400)
+            return res.json({ error: 'unsupported_command' })
+        }
+        const invalid = checkSubClaim(syncCommand, claims)
+        if (invalid) {
+            res.status(invalid.status)
+            return res.json(invalid.body)
+        }
+        const job_id = randomUUID()
+        await (config.commandQueue || memoryCommandQueue).enqueue({
+            job_id,
+            claims,
+        })
+        res.status(202)
+        return res.json({ job_id })
+    }
+
+    const handled = await runCommandHandler(command, claims)
+    if (handled) {
+        if (handled.status !== 200) res.status(handled.status)
+        return res.json(handled.body)
+    }
+
     if (config.commandHandler) {
         if (
             config.commandsSupported &&
@@ -1,12 +1,11 @@
 import { HelloRequest, HelloResponse } from '../types'
-import {
-    fetchToken,
-    parseToken,
-    decryptObj,
-    encryptObj,
-} from '@hellocoop/helper-server'
+import { fetchToken, decryptObj } from '@hellocoop/helper-server'
 import { Auth, VALID_IDENTITY_CLAIMS } from '@hellocoop/definitions'
 import config, { configurationError } from '../lib/config'
+import { verifyIdToken } from '../lib/idToken'
+import { createTokens } from '../lib/accessToken'
+import { getProviderEndpoints } from '../lib/provider'
+import { traceTokenEndpoint } from '../lib/telemetry'
 
 export interface TokenExchangeError {
     error: string
@@ -25,6 +24,8 @@ export const performTokenExchange = async (params: {
     nonce?: string
     redirect_uri?: string
     target_uri?: string
+    max_age?: number
+    sub?: string // a profile refresh must return the account of the session
     encrypted_state?: string
     loginSyncWrapper?: (loginSync: any, data: any) => Promise<any>
 }): Promise<AuthExchangeResult | TokenExchangeError> => {
@@ -33,19 +34,20 @@ export const performTokenExchange = async (params: {
     }
 
     const { code, loginSyncWrapper } = params
-    let { code_verifier, nonce, redirect_uri, target_uri } = params
+    let { code_verifier, nonce, redirect_uri, target_uri, max_age } = params
 
     try {
         // If encrypted_state is provided, decrypt it to get OIDC parameters
         if (params.encrypted_state) {
             const oidcState = (await decryptObj(
                 params.encrypted_state,
-                config.secret as string,
+                config.secrets,
             )) as {
                 nonce: string
                 code_verifier: string
                 redirect_uri: string
                 target_uri: string
+                max_age?: number
             }
 
             if (!oidcState || !oidcState.code_verifier) {
@@ -59,6 +61,7 @@ export const performTokenExchange = async (params: {
             nonce = oidcState.nonce
             redirect_uri = oidcState.redirect_uri
             target_uri = oidcState.target_uri
+            max_age = oidcState.max_age
         }
 
         if (!code_verifier || !nonce || !redirect_uri) {
@@ -69,53 +72,56 @@ export const performTokenExchange = async (params: {
         }
 
         // Exchange code for token
-        const token = await fetchToken({
+        const { token_endpoint } = await getProviderEndpoints()
+        const fetchConfig = {
             code: code.toString(),
             wallet: config.helloWallet,
+            token_endpoint,
             code_verifier,
             redirect_uri,
             client_id: config.clientId as string,
-        })
-
-        const result = parseToken(token)
-        const payload = result.payload
-
-        // Basic token validation
-        if (payload.aud != config.clientId) {
-            return {
-                error: 'invalid_client',
-                error_description: 'Wrong ID token audience',
-            }
         }
+        const token = await traceTokenEndpoint(token_endpoint, () =>
+            fetchToken(fetchConfig),
+        )
 
-        if (payload.nonce != nonce) {
+        // Verify signature and claims against the issuer's JWKS
+        const result = await verifyIdToken(token, nonce)
+        if ('error' in result) return result
+        const payload = result.payload
+        if (params.sub && payload.sub !== params.sub)
             return {
-                error: 'invalid_request',
-                error_description: 'Wrong nonce in ID token',
+                error: 'access_denied',
+                error_description: 'ID token is for a different account',
             }
-        }
 
-        const currentTimeInt = Math.floor(Date.now() / 1000)
-        if (payload.exp < currentTimeInt) {
-            return {
-                error: 'invalid_request',
-                error_description: 'The ID token has expired.',
-            }
+        // the OP session id is kept so back-channel logout can match it,
+        // and auth_time so requireRecentAuth can check it
+        const { sid, auth_time } = payload
+        if (max_age !== undefined) {
+            // a step-up login must be a recent authentication
+            if (!auth_time)
+                return {
+                    error: 'invalid_request',
+                    error_description: 'Missing auth_time in ID token',
+                }
+            if (Math.floor(Date.now() / 1000) - auth_time > max_age + 5)
+                return {
+                    error: 'login_required',
+                    error_description: 'auth_time is older than max_age',
+                }
         }
-
-        if (payload.iat > currentTimeInt + 5) {
-            // 5 seconds of clock skew
-            return {
-                error: 'invalid_request',
-                error_description: 'The ID token is not yet valid',
-            }
+        const sessionClaims = {
+            sub: payload.sub,
+            iat: payload.iat,
+            ...(sid && { sid }),
+            ...(auth_time && { auth_time }),
         }
 
         // Construct Auth object
         let auth = {
             isLoggedIn: true,
-            sub: payload.sub,
-            iat: payload.iat,
+            ...sessionClaims,
         } as Auth
 
         VALID_IDENTITY_CLAIMS.forEach((claim) => {
@@ -151,8 +157,7 @@ export const performTokenExchange = async (params: {
                     auth = {
                         ...cb.updatedAuth,
                         isLoggedIn: true,
-                        sub: payload.sub,
-                        iat: payload.iat,
+                        ...sessionClaims,
                     }
                 }
             } catch (e) {
@@ -221,12 +226,9 @@ const handleTokenExchange = async (req: HelloRequest, res: HelloResponse) => {
             return res.send(JSON.stringify(configurationError()))
         }
 
-        // For mobile apps, encrypt the auth object to create the access_token
-        const access_token = await encryptObj(
-            result.auth,
-            config.secret as string,
-        )
-        if (!access_token) {
+        // For mobile apps, the access_token is the encrypted auth object
+        const tokens = await createTokens(result.auth)
+        if (!tokens.access_token) {
             res.status(500)
             return res.send(
                 JSON.stringify({
@@ -237,7 +239,7 @@ const handleTokenExchange = async (req: HelloRequest, res: HelloResponse) => {
         }
 
         return res.json({
-            access_token,
+            ...tokens,
             auth: result.auth,
         })
     } catch (error) {
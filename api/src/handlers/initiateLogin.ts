@@ -3,7 +3,7 @@
 
 import { HelloRequest, HelloResponse } from '../types'
 import handleLogin from './login'
-import config from '../lib/config'
+import { getProviderIssuer } from '../lib/provider'
 
 type InitiateLoginParams = {
     iss?: string
@@ -21,7 +21,8 @@ const initiateLogin = async (
     const { iss, login_hint, domain_hint, target_link_uri, redirect_uri } =
         params
 
-    const issuer = `https://issuer.${config.helloDomain}`
+    // the OP we log in with, Hellō unless config.provider is set
+    const { issuer } = getProviderIssuer()
     if (iss && iss !== issuer) {
         return res.send(`Passed iss '${iss}' must be '${issuer}'`)
     }
@@ -5,6 +5,7 @@ import { getAuthfromCookies } from '../lib/auth'
 import { redirectURIBounce } from '@hellocoop/helper-server'
 
 import config from '../lib/config'
+import { safeTargetURI } from '../lib/redirect'
 
 // var callCount = 0 // DEBUG
 
@@ -71,7 +72,7 @@ const handleInvite = async (req: HelloRequest, res: HelloResponse) => {
         inviter: auth.sub,
         client_id: config.clientId,
         initiate_login_uri: redirectURI,
-        return_uri: target_uri || defaultTargetURI,
+        return_uri: safeTargetURI(target_uri, redirectURI) || defaultTargetURI,
     }
     const url = `${config.helloWallet}/invite?${new URLSearchParams(request as any)}`
     res.redirect(url)
@@ -4,6 +4,7 @@ import { decryptObj, redirectURIBounce } from '@hellocoop/helper-server'
 import config from '../lib/config'
 import { saveOidc } from '../lib/oidc'
 import { createLoginURL } from './loginURL'
+import { emitEvent } from '../lib/events'
 
 const handleLogin = async (req: HelloRequest, res: HelloResponse) => {
     const redirectURI = config.redirectURI || (req.query.redirect_uri as string)
@@ -20,6 +21,9 @@ const handleLogin = async (req: HelloRequest, res: HelloResponse) => {
             'iss',
             'domain_hint',
             'login_hint',
+            'response_mode',
+            'prompt',
+            'max_age',
         ]
         const safeQuery: Record<string, string> = {}
 
@@ -61,13 +65,14 @@ const handleLogin = async (req: HelloRequest, res: HelloResponse) => {
     try {
         // The state from createLoginURL is encrypted, but we need to save it as OIDC cookie for web
         // We'll need to decrypt it first, then save it using saveOidc
-        const oidcData = await decryptObj(state, config.secret as string)
+        const oidcData = await decryptObj(state, config.secrets)
 
         if (!oidcData) {
             throw new Error('Failed to decrypt state data')
         }
 
         await saveOidc(req, res, oidcData as any)
+        emitEvent('login_started', req)
         res.redirect(url)
     } catch (error) {
         console.error('Error processing login:', error)
@@ -1,16 +1,26 @@
-import { HelloRequest, HelloResponse } from '../types'
+import { randomBytes } from 'crypto'
+import { HelloRequest, HelloResponse, ResponseMode } from '../types'
 import {
     createAuthRequest,
     ICreateAuthRequest,
     encryptObj,
+    pushAuthRequest,
 } from '@hellocoop/helper-server'
 import { Scope, ProviderHint } from '@hellocoop/definitions'
 
 import config, { configurationError } from '../lib/config'
+import { safeTargetURI } from '../lib/redirect'
+import {
+    getProviderEndpoints,
+    getPushedAuthorizationRequestEndpoint,
+} from '../lib/provider'
+
+// fragment can't be read by the API route
+const RESPONSE_MODES: ResponseMode[] = ['query', 'form_post']
 
 export interface LoginURLResult {
     url: string
-    state: string
+    state: string // the encrypted login transaction, not the OAuth state
 }
 
 export interface LoginURLError {
@@ -28,6 +38,8 @@ export const createLoginURL = async (params: {
     prompt?: string | string[]
     login_hint?: string | string[]
     domain_hint?: string | string[]
+    response_mode?: string | string[]
+    max_age?: string | string[] | number
 }): Promise<LoginURLResult | LoginURLError> => {
     const {
         provider_hint: providerParam,
@@ -38,6 +50,8 @@ export const createLoginURL = async (params: {
         prompt,
         login_hint,
         domain_hint,
+        response_mode: responseModeParam,
+        max_age: maxAgeParam,
     } = params
 
     if (config.error) {
@@ -68,6 +82,34 @@ export const createLoginURL = async (params: {
 
     if ((!scope || scope.length === 0) && config.scope) scope = config.scope
 
+    const response_mode = ((Array.isArray(responseModeParam)
+        ? responseModeParam[0]
+        : responseModeParam) || config.responseMode) as ResponseMode | undefined
+    if (response_mode && !RESPONSE_MODES.includes(response_mode)) {
+        return {
+            error: 'invalid_request',
+            error_description: `response_mode must be one of ${RESPONSE_MODES.join(', ')}`,
+        }
+    }
+
+    // step-up: Hellō re-authenticates the user if they last authenticated
+    // more than max_age seconds ago
+    let max_age: number | undefined
+    if (maxAgeParam !== undefined) {
+        max_age = Number(
+            Array.isArray(maxAgeParam) ? maxAgeParam[0] : maxAgeParam,
+        )
+        if (!Number.isInteger(max_age) || max_age < 0) {
+            return {
+                error: 'invalid_request',
+                error_description: 'max_age must be a non-negative integer',
+            }
+        }
+    }
+
+    // binds the authorization response to this login transaction
+    const oauthState = randomBytes(16).toString('base64url')
+
     const request: ICreateAuthRequest = {
         redirect_uri: redirectURI,
         client_id: config.clientId as string,
@@ -77,6 +119,9 @@ export const createLoginURL = async (params: {
         login_hint: Array.isArray(login_hint) ? login_hint[0] : login_hint,
         domain_hint: Array.isArray(domain_hint) ? domain_hint[0] : domain_hint,
         prompt: Array.isArray(prompt) ? prompt[0] : prompt,
+        response_mode,
+        state: oauthState,
+        max_age,
     }
     if (providedNonce) {
         request.nonce = Array.isArray(providedNonce)
@@ -85,7 +130,19 @@ export const createLoginURL = async (params: {
     }
 
     try {
-        const { url, nonce, code_verifier } = await createAuthRequest(request)
+        request.authorization_endpoint = (
+            await getProviderEndpoints()
+        ).authorization_endpoint
+        const authRequest = await createAuthRequest(request)
+        const { nonce, code_verifier } = authRequest
+        // only client_id and request_uri go through the browser
+        const url = config.pushedAuthorizationRequests
+            ? await pushAuthRequest({
+                  url: authRequest.url,
+                  pushed_authorization_request_endpoint:
+                      await getPushedAuthorizationRequestEndpoint(),
+              })
+            : authRequest.url
 
         // Encrypt state to save in cookie or return caller
         const state = await encryptObj(
@@ -93,9 +150,11 @@ export const createLoginURL = async (params: {
                 nonce,
                 code_verifier,
                 redirect_uri: redirectURI,
-                target_uri: (Array.isArray(target_uri)
-                    ? target_uri[0]
-                    : target_uri) as string,
+                target_uri: safeTargetURI(target_uri, redirectURI),
+                response_mode,
+                state: oauthState,
+                max_age,
+                prompt: request.prompt,
             },
             config.secret as string,
         )
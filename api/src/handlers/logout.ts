@@ -1,15 +1,56 @@
 import { HelloRequest, HelloResponse } from '../types'
-import { clearAuthCookie } from '../lib/auth'
+import {
+    clearAuthCookie,
+    destroyAuthSession,
+    getAuthfromCookies,
+} from '../lib/auth'
 import config from '../lib/config'
+import { emitEvent } from '../lib/events'
+import { getProviderEndpoints } from '../lib/provider'
+import { getRequestOrigin, safeTargetURI } from '../lib/redirect'
+
+// a provider with an end_session_endpoint logs the user out there too
+// and then returns them to the target
+const endSessionURL = async (
+    target_uri: string,
+    ourURL?: string,
+): Promise<string | undefined> => {
+    if (!config.provider) return undefined
+    try {
+        const { end_session_endpoint } = await getProviderEndpoints()
+        if (!end_session_endpoint) return undefined
+        const url = new URL(end_session_endpoint)
+        url.searchParams.set('client_id', config.clientId as string)
+        url.searchParams.set(
+            'post_logout_redirect_uri',
+            new URL(target_uri, ourURL).href,
+        )
+        return url.href
+    } catch (e) {
+        console.error('logout: no end_session_endpoint', e)
+        return undefined
+    }
+}
 
 const handleLogout = async (req: HelloRequest, res: HelloResponse) => {
-    const { target_uri } = req.query
+    const ourURL = config.redirectURI || getRequestOrigin(req)
+    const target_uri =
+        safeTargetURI(req.query.target_uri, ourURL) ||
+        config.routes.loggedOut ||
+        '/'
+    if (config.onEvent) {
+        const auth = await getAuthfromCookies(req)
+        emitEvent('logout', req, {
+            sub: auth.isLoggedIn ? auth.sub : undefined,
+        })
+    }
+    await destroyAuthSession(req)
     clearAuthCookie(res)
     if (config.logoutSync) {
         const e = await req.logoutSyncWrapper(config.logoutSync)
         if (e) console.log(new Error('logoutSync faulted'), e)
     }
-    res.redirect((target_uri as string) || config.routes.loggedOut || '/')
+    res.redirect((await endSessionURL(target_uri, ourURL)) || target_uri)
 }
 
 export default handleLogout
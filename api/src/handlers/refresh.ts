@@ -0,0 +1,41 @@
+import { HelloRequest, HelloResponse } from '../types'
+import { refreshTokens } from '../lib/accessToken'
+import handleLogin from './login'
+import { emitEvent } from '../lib/events'
+
+// GET op=refresh -- a prompt=none round trip to Hellō that re-runs
+// loginSync and replaces the claims in the session
+export const handleProfileRefresh = async (
+    req: HelloRequest,
+    res: HelloResponse,
+) => {
+    req.query = { ...req.query, prompt: 'none' }
+    return handleLogin(req, res)
+}
+
+// POST op=refresh -- mobile apps rotate their tokens with the refresh_token
+// from op=exchange
+export const handleTokenRefresh = async (
+    req: HelloRequest,
+    res: HelloResponse,
+) => {
+    res.setHeader('Cache-Control', 'no-store')
+    const refresh_token = req.body?.refresh_token
+    if (!refresh_token) {
+        res.status(400)
+        return res.json({
+            error: 'invalid_request',
+            error_description: 'Missing refresh_token parameter',
+        })
+    }
+    const tokens = await refreshTokens(refresh_token)
+    if (!tokens) {
+        res.status(400)
+        return res.json({
+            error: 'invalid_grant',
+            error_description: 'refresh_token is invalid, expired or revoked',
+        })
+    }
+    emitEvent('tokens_refreshed', req)
+    return res.json(tokens)
+}
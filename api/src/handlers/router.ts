@@ -1,6 +1,6 @@
 import { HelloRequest, HelloResponse } from '../types'
 
-import config from '../lib/config'
+import config, { configurationError } from '../lib/config'
 import handleCallback from './callback'
 import handleLogin from './login'
 import handleLoginURL from './loginURL'
@@ -8,11 +8,14 @@ import handleTokenExchange from './exchange'
 import handleLogout from './logout'
 import handleInvite from './invite'
 import handleCommand from './command'
+import handleBackchannelLogout from './backchannelLogout'
+import { handleProfileRefresh, handleTokenRefresh } from './refresh'
 // import { handleAuth, handleCookieTokenVerify } from './auth'
 import { handleAuth } from './auth'
 import handleWildcardConsole from './wildcard'
 import initiateLogin from './initiateLogin'
 import { NotLoggedIn } from '@hellocoop/definitions'
+import { traceOp } from '../lib/telemetry'
 
 const router = async (req: HelloRequest, res: HelloResponse) => {
     const { query, method } = req
@@ -26,13 +29,45 @@ const router = async (req: HelloRequest, res: HelloResponse) => {
     if (method === 'POST') {
         const params = req.body
 
+        if (query?.op === 'refresh') {
+            // rotate mobile tokens
+            if (config.error) {
+                res.status(500)
+                return res.json(configurationError())
+            }
+            return await traceOp('refresh', req, () =>
+                handleTokenRefresh(req, res),
+            )
+        }
+
+        if (params.code || params.error) {
+            // form_post authorization response -- checked before iss,
+            // which may also be in an authorization response
+            if (config.error) {
+                res.status(500)
+                return res.send(
+                    'Missing configuration:\n' +
+                        JSON.stringify(config.error, null, 4),
+                )
+            }
+            return await traceOp('callback', req, () =>
+                handleCallback(req, res),
+            )
+        }
         if (params.iss || params.domain_hint || params.login_hint) {
             return res.redirect(
                 config.apiRoute + '/?' + new URLSearchParams(params as any),
             )
         }
         if (params.command_token) {
-            return await handleCommand(req, res, params)
+            return await traceOp('command', req, () =>
+                handleCommand(req, res, params),
+            )
+        }
+        if (params.logout_token) {
+            return await traceOp('backchannel_logout', req, () =>
+                handleBackchannelLogout(req, res, params),
+            )
         }
         // we don't know how to process the POST
         const keys = Object.keys(params)
@@ -58,7 +93,7 @@ const router = async (req: HelloRequest, res: HelloResponse) => {
             if (config.error) {
                 return res.json(NotLoggedIn)
             } else {
-                return await handleAuth(req, res)
+                return await traceOp('auth', req, () => handleAuth(req, res))
             }
         }
         if (config.error) {
@@ -72,23 +107,33 @@ const router = async (req: HelloRequest, res: HelloResponse) => {
         }
         if (query.op === 'login') {
             // start login flow, redirect to Hellō
-            return await handleLogin(req, res)
+            return await traceOp('login', req, () => handleLogin(req, res))
+        }
+        if (query.op === 'refresh') {
+            // refresh profile claims from Hellō
+            return await traceOp('refresh', req, () =>
+                handleProfileRefresh(req, res),
+            )
         }
         if (query.op === 'logout') {
             // logout user
-            return await handleLogout(req, res)
+            return await traceOp('logout', req, () => handleLogout(req, res))
         }
         if (query.op === 'invite') {
             // start invite flow, redirect to Hellō
-            return await handleInvite(req, res)
+            return await traceOp('invite', req, () => handleInvite(req, res))
         }
         if (query.op === 'loginURL') {
             // return login URL and state for mobile apps
-            return await handleLoginURL(req, res)
+            return await traceOp('loginURL', req, () =>
+                handleLoginURL(req, res),
+            )
         }
         if (query.op === 'exchange') {
             // exchange code + state for tokens (mobile apps)
-            return await handleTokenExchange(req, res)
+            return await traceOp('exchange', req, () =>
+                handleTokenExchange(req, res),
+            )
         }
         res.status(500)
         res.setHeader('Content-Type', 'text/plain')
@@ -106,16 +151,20 @@ const router = async (req: HelloRequest, res: HelloResponse) => {
 
     if (query.code || query.error) {
         // authorization response
-        return await handleCallback(req, res)
+        return await traceOp('callback', req, () => handleCallback(req, res))
     }
 
     if (query.wildcard_console) {
-        return await handleWildcardConsole(req, res)
+        return await traceOp('wildcard_console', req, () =>
+            handleWildcardConsole(req, res),
+        )
     }
 
     if (query.iss || query.domain_hint || query.login_hint) {
         // IdP initiated login
-        return await initiateLogin(req, res, query as any)
+        return await traceOp('initiate_login', req, () =>
+            initiateLogin(req, res, query as any),
+        )
     }
 
     res.status(500)
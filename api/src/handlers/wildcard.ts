@@ -1,16 +1,28 @@
 import { HelloRequest, HelloResponse } from '../types'
 import { wildcardConsole } from '@hellocoop/helper-server'
+import config from '../lib/config'
+import { getRequestOrigin, safeTargetURI } from '../lib/redirect'
 
 const handleCallback = async (req: HelloRequest, res: HelloResponse) => {
+    const { uri, appName, redirectURI, targetURI } = req.query as {
+        uri: string
+        appName: string
+        redirectURI: string
+        targetURI: string
+    }
+    // the query can be crafted by anyone, so the link is checked like
+    // any other target_uri
+    const ourURL = config.redirectURI || getRequestOrigin(req)
     res.send(
-        wildcardConsole(
-            req.query as {
-                uri: string
-                appName: string
-                redirectURI: string
-                targetURI: string
-            },
-        ),
+        wildcardConsole({
+            uri,
+            appName,
+            redirectURI,
+            targetURI:
+                safeTargetURI(targetURI, ourURL) ||
+                config.routes.loggedIn ||
+                '/',
+        }),
     )
 }
 export default handleCallback
@@ -5,7 +5,29 @@ export {
     isConfigured,
     resetConfiguration,
 } from './lib/config'
-export { clearAuthCookieParams, getAuthfromCookies } from './lib/auth'
+export {
+    clearAuthCookieParams,
+    destroyAuthSession,
+    getAuthfromCookies,
+    isSessionExpired,
+} from './lib/auth'
+export { createMemorySessionStore } from './lib/sessionStore'
+export { isRecentAuth, getReauthURL } from './lib/stepUp'
+export { getAuthfromBearer, revokeToken } from './lib/accessToken'
+export { createMemoryRevocationList } from './lib/revocationList'
+export { createMemoryLogoutList } from './lib/logoutList'
+export { createMemoryReplayCache } from './lib/replayCache'
+export { verifyIdToken } from './lib/idToken'
+export { verifyLogoutToken } from './lib/logoutToken'
 export { default as router } from './handlers/router'
+export { createLoginURL } from './handlers/loginURL'
+export { saveOidc } from './lib/oidc'
+export type { OIDC } from './lib/oidc'
+export { getRequestOrigin, safeTargetURI } from './lib/redirect'
+export { updateAuth, EDITABLE_CLAIMS } from './handlers/auth'
+export type { AuthUpdates } from './handlers/auth'
+export { processCommandJob } from './handlers/command'
+export { createMemoryCommandQueue } from './lib/commandQueue'
+export { createJSONLinesSink } from './lib/events'
 export { PackageMetadata } from './lib/packageMetadata'
 export * from './types'
@@ -0,0 +1,136 @@
+// Bearer tokens for mobile apps
+// the access_token from op=exchange is the encrypted Auth plus exp and jti
+// claims, so API calls can authenticate with it like with the auth cookie
+
+import { createHmac, randomUUID } from 'crypto'
+import { decryptObjWithSecrets, encryptObj } from '@hellocoop/helper-server'
+import { Auth, NotLoggedIn } from '@hellocoop/definitions'
+
+import { HelloRequest } from '../types'
+import config, { DEFAULT_REFRESH_TOKEN_MAX_AGE } from './config'
+import { createMemoryRevocationList } from './revocationList'
+import { isLoggedOut } from './logoutList'
+
+const DEFAULT_ACCESS_TOKEN_MAX_AGE = 60 * 60 // 1 hour
+
+type TokenClaims = {
+    exp: number
+    jti: string
+    token_type?: 'refresh'
+}
+
+export type TokenResponse = {
+    access_token: string
+    token_type: 'Bearer'
+    expires_in: number
+    refresh_token: string
+}
+
+// used when config.tokenRevocationList is not set
+const memoryRevocationList = createMemoryRevocationList()
+const getRevocationList = () =>
+    config.tokenRevocationList || memoryRevocationList
+
+const now = () => Math.floor(Date.now() / 1000)
+
+// tokens are encrypted with a key derived from each cookie secret, so an
+// access_token or refresh_token does not decrypt as an auth cookie
+export const tokenSecret = (secret: string): string =>
+    createHmac('sha256', Buffer.from(secret, 'hex'))
+        .update('hellocoop bearer token')
+        .digest('hex')
+
+const tokenSecrets = () => config.secrets.map(tokenSecret)
+
+// an auth cookie never carries these -- a decrypted value that does is a
+// token, and is not accepted as a session
+export const isTokenPayload = (obj: object): boolean =>
+    'exp' in obj || 'jti' in obj || 'token_type' in obj
+
+const accessTokenMaxAge = () =>
+    config.accessTokenMaxAge || DEFAULT_ACCESS_TOKEN_MAX_AGE
+
+const mintToken = (
+    auth: Auth,
+    maxAge: number,
+    token_type?: 'refresh',
+): Promise<string> =>
+    encryptObj(
+        {
+            ...auth,
+            exp: now() + maxAge,
+            jti: randomUUID(),
+            ...(token_type && { token_type }),
+        },
+        tokenSecret(config.secret as string),
+    )
+
+export const createTokens = async (auth: Auth): Promise<TokenResponse> => {
+    const expires_in = accessTokenMaxAge()
+    return {
+        access_token: await mintToken(auth, expires_in),
+        token_type: 'Bearer',
+        expires_in,
+        refresh_token: await mintToken(
+            auth,
+            config.refreshTokenMaxAge || DEFAULT_REFRESH_TOKEN_MAX_AGE,
+            'refresh',
+        ),
+    }
+}
+
+// decrypts the token and checks its type, expiry and revocation
+const readToken = async (
+    token: string,
+    token_type?: 'refresh',
+): Promise<(Auth & TokenClaims) | undefined> => {
+    const decrypted = await decryptObjWithSecrets(token, tokenSecrets())
+    const claims = decrypted?.obj as (Auth & TokenClaims) | undefined
+    if (!claims?.isLoggedIn || claims.token_type !== token_type)
+        return undefined
+    if (!claims.exp || claims.exp <= now() || !claims.jti) return undefined
+    if (await getRevocationList().isRevoked(claims.jti)) return undefined
+    if (await isLoggedOut(claims)) return undefined
+    return claims
+}
+
+const toAuth = (claims: Auth & TokenClaims): Auth => {
+    const { exp, jti, token_type, ...auth } = claims
+    return auth as Auth
+}
+
+export const getBearerToken = (req: HelloRequest): string | undefined => {
+    const authorization = req.headers()?.authorization
+    return authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+}
+
+export const getAuthfromBearer = async (token: string): Promise<Auth> => {
+    try {
+        const claims = await readToken(token)
+        if (claims) return toAuth(claims)
+    } catch (e) {
+        console.error(e)
+    }
+    return NotLoggedIn
+}
+
+// a refresh_token can only be used once -- it is revoked as new tokens
+// are issued, so a stolen refresh_token stops working after either use
+export const refreshTokens = async (
+    refresh_token: string,
+): Promise<TokenResponse | undefined> => {
+    const claims = await readToken(refresh_token, 'refresh')
+    if (!claims) return undefined
+    if (!(await getRevocationList().revoke(claims.jti, claims.exp)))
+        return undefined
+    return createTokens(toAuth(claims))
+}
+
+// revokes an access_token or refresh_token, e.g. when a device signs out
+export const revokeToken = async (token: string): Promise<boolean> => {
+    const decrypted = await decryptObjWithSecrets(token, tokenSecrets())
+    const claims = decrypted?.obj as Partial<TokenClaims> | undefined
+    if (!claims?.jti || !claims.exp) return false
+    await getRevocationList().revoke(claims.jti, claims.exp)
+    return true
+}
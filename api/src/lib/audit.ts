@@ -0,0 +1,38 @@
+// built-in responders for the audit and audit_tenant commands
+// account data comes from the configured AccountProvider
+
+import { AccountProvider, AuditResponse, CommandHandlers } from '../types'
+
+// claims with no value are left out of the response
+const toAuditResponse = (account: AuditResponse): AuditResponse =>
+    Object.fromEntries(
+        Object.entries(account).filter(([, value]) => value !== undefined),
+    ) as AuditResponse
+
+export const createAuditHandlers = (
+    provider: AccountProvider,
+): Pick<CommandHandlers, 'audit' | 'audit_tenant'> => ({
+    audit: async ({ iss, tenant, sub }) => {
+        const account = await provider.getAccount({ iss, tenant, sub })
+        if (!account)
+            return {
+                error: 'unknown_account',
+                error_description: `no account for sub ${sub}`,
+            }
+        return toAuditResponse({ ...account, sub })
+    },
+    // one page per command, so neither the provider nor the response ever
+    // holds a large tenant -- the OP passes the returned cursor back in the
+    // cursor claim of the next audit_tenant command
+    audit_tenant: async ({ iss, tenant, cursor }) => {
+        const page = await provider.listAccounts({
+            iss,
+            tenant,
+            cursor: typeof cursor === 'string' ? cursor : undefined,
+        })
+        return {
+            accounts: page.accounts.map(toAuditResponse),
+            ...(page.cursor && { cursor: page.cursor }),
+        }
+    },
+})
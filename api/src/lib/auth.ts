@@ -1,4 +1,4 @@
-import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+import { decryptObjWithSecrets, encryptObj } from '@hellocoop/helper-server'
 import { Auth, NotLoggedIn } from '@hellocoop/definitions'
 
 import { HelloRequest, HelloResponse } from '../types'
@@ -7,6 +7,14 @@ import config from './config'
 
 import { parse, SerializeOptions } from 'cookie'
 import { clearOidcCookie } from './oidc'
+import { createSessionId } from './sessionStore'
+import {
+    getAuthfromBearer,
+    getBearerToken,
+    isTokenPayload,
+} from './accessToken'
+import { emitEvent } from './events'
+import { isLoggedOut } from './logoutList'
 
 const {
     cookies: { authName, oidcName },
@@ -20,19 +28,66 @@ const SAME_SITE = ENABLE_3P_COOKIES
       ? 'strict'
       : 'lax'
 const SECURE = PRODUCTION || ENABLE_3P_COOKIES
+// sliding renewal rewrites the cookie at most this often (seconds)
+const RENEWAL_INTERVAL = 60
 
+const now = () => Math.floor(Date.now() / 1000)
+
+// seconds until the session ends under the configured lifetime policy,
+// undefined if sessions only end when the browser drops the cookie
+const sessionTimeLeft = (auth: Auth): number | undefined => {
+    if (!auth.isLoggedIn) return undefined
+    const limits: number[] = []
+    if (config.sessionMaxAge) limits.push(auth.iat + config.sessionMaxAge)
+    if (config.sessionIdleTimeout)
+        limits.push((auth.lastActive || auth.iat) + config.sessionIdleTimeout)
+    if (!limits.length) return undefined
+    return Math.min(...limits) - now()
+}
+
+export const isSessionExpired = (auth: Auth): boolean => {
+    const timeLeft = sessionTimeLeft(auth)
+    return timeLeft !== undefined && timeLeft <= 0
+}
+
+const needsRenewal = (auth: Auth): boolean => {
+    if (!auth.isLoggedIn || !config.sessionIdleTimeout) return false
+    if (config.sessionRolling === false) return false
+    const interval = Math.min(RENEWAL_INTERVAL, config.sessionIdleTimeout / 2)
+    return now() - (auth.lastActive || auth.iat) >= interval
+}
+
+// the auth cookie value -- the encrypted Auth, or a session id when
+// a sessionStore is configured
+const getAuthCookie = (req: HelloRequest): string | undefined =>
+    parse(req.headers()?.cookie || '')[authName]
+
+// pass the current session id to update a session in place
 export const saveAuthCookie = async (
     res: HelloResponse,
     auth: Auth,
+    sid?: string,
 ): Promise<boolean> => {
     try {
-        const encCookie = await encryptObj(auth, config.secret as string)
-        if (!encCookie) return false
-        res.setCookie(authName, encCookie, {
+        // saving the session counts as activity for the idle timeout
+        if (auth.isLoggedIn && config.sessionIdleTimeout)
+            auth = { ...auth, lastActive: now() }
+        const maxAge = sessionTimeLeft(auth)
+        if (maxAge !== undefined && maxAge <= 0) return false
+        let cookieValue: string
+        if (config.sessionStore) {
+            cookieValue = sid || createSessionId()
+            await config.sessionStore.set(cookieValue, auth, maxAge)
+        } else {
+            cookieValue = await encryptObj(auth, config.secret as string)
+        }
+        if (!cookieValue) return false
+        res.setCookie(authName, cookieValue, {
             httpOnly: true,
             secure: SECURE,
             sameSite: SAME_SITE,
             path: '/', // let any server side route call getAuth
+            ...(maxAge !== undefined && { maxAge }),
             ...(config.cookieDomain && { domain: config.cookieDomain }),
         })
         return true
@@ -47,6 +102,30 @@ export const clearAuthCookie = (res: HelloResponse) => {
     res.setCookie(name, value, options)
 }
 
+const destroySession = async (sid: string) => {
+    if (!config.sessionStore) return
+    try {
+        await config.sessionStore.destroy(sid)
+    } catch (e) {
+        console.error(e)
+    }
+}
+
+// removes the server-side session, if any -- the cookie is cleared separately
+export const destroyAuthSession = async (req: HelloRequest) => {
+    const sid = getAuthCookie(req)
+    if (sid) await destroySession(sid)
+}
+
+export const updateAuthCookie = async (
+    req: HelloRequest,
+    res: HelloResponse,
+    auth: Auth,
+): Promise<boolean> => {
+    const sid = config.sessionStore ? getAuthCookie(req) : undefined
+    return saveAuthCookie(res, auth, sid)
+}
+
 export const clearAuthCookieParams = (): {
     name: string
     value: string
@@ -67,6 +146,10 @@ export const getAuthfromCookies = async function (
     req: HelloRequest,
     res?: HelloResponse,
 ): Promise<Auth> {
+    // a Bearer access_token from a mobile app takes precedence over cookies
+    const bearerToken = getBearerToken(req)
+    if (bearerToken) return getAuthfromBearer(bearerToken)
+
     const cookies = parse(req.headers()?.cookie || '')
 
     if (cookies[oidcName] && res)
@@ -76,14 +159,44 @@ export const getAuthfromCookies = async function (
     const authCookie = cookies[authName]
     if (!authCookie) return NotLoggedIn
     try {
-        const auth = (await decryptObj(authCookie, config.secret as string)) as
-            | Auth
-            | undefined
+        let auth: Auth | undefined
+        let reissue = false
+        if (config.sessionStore) {
+            auth = await config.sessionStore.get(authCookie)
+        } else {
+            const decrypted = await decryptObjWithSecrets(
+                authCookie,
+                config.secrets,
+            )
+            auth = decrypted?.obj as Auth | undefined
+            if (!decrypted)
+                emitEvent('cookie_decrypt_failed', req, { cookie: authName })
+            if (auth && isTokenPayload(auth)) {
+                console.error('auth cookie rejected, it is a token')
+                if (res) clearAuthCookie(res)
+                return NotLoggedIn
+            }
+            // encrypted with a previous secret -- re-encrypt with the current one
+            reissue = !!decrypted?.secretIndex
+        }
+        if (auth && (isSessionExpired(auth) || (await isLoggedOut(auth)))) {
+            await destroySession(authCookie)
+            if (res) clearAuthCookie(res)
+            return NotLoggedIn
+        }
         if (auth) {
+            if (res && (reissue || needsRenewal(auth)))
+                await saveAuthCookie(
+                    res,
+                    auth,
+                    config.sessionStore ? authCookie : undefined,
+                )
             if (auth.isLoggedIn && config.cookieToken)
                 auth.cookieToken = authCookie
             return auth
         }
+        // session was destroyed or has expired from the store
+        if (config.sessionStore && res) clearAuthCookie(res)
     } catch (e) {
         if (res) clearAuthCookie(res)
         console.error(e)
@@ -0,0 +1,20 @@
+// in-memory CommandQueue
+// runs jobs one at a time in this process -- jobs are lost on restart, so
+// use a durable queue for commands that must survive a deploy
+
+import { CommandJob, CommandQueue } from '../types'
+
+export const createMemoryCommandQueue = (
+    process: (job: CommandJob) => Promise<void>,
+): CommandQueue => {
+    let tail: Promise<void> = Promise.resolve()
+    return {
+        enqueue: async (job) => {
+            tail = tail.then(() =>
+                process(job).catch((e) =>
+                    console.error('commandQueue: job faulted', job.job_id, e),
+                ),
+            )
+        },
+    }
+}
@@ -1,10 +1,29 @@
-import { Config, GenericSync, Command, CommandHandler } from '../types'
+import {
+    AccountProvider,
+    AuthEventHandler,
+    Config,
+    GenericSync,
+    ResponseMode,
+    Command,
+    CommandHandler,
+    CommandHandlers,
+    CommandIssuer,
+    CommandQueue,
+    LogoutList,
+    OIDCProvider,
+    ReplayCache,
+    SessionStore,
+    TokenRevocationList,
+} from '../types'
 import { Scope, ProviderHint, VALID_SCOPES } from '@hellocoop/definitions'
 import { checkSecret } from '@hellocoop/helper-server'
 
 export interface IConfig {
     production: boolean
     sameSiteStrict?: boolean
+    responseMode?: ResponseMode
+    provider?: OIDCProvider // not set for Hellō
+    pushedAuthorizationRequests?: boolean
     error?: string[]
     scope?: Scope[]
     provider_hint?: ProviderHint[]
@@ -13,17 +32,34 @@ export interface IConfig {
         loggedOut?: string
         error?: string
     }
+    allowedRedirects?: string[]
     cookies: {
         authName: string
         oidcName: string
     }
     loginSync?: GenericSync
     logoutSync?: GenericSync
+    onEvent?: AuthEventHandler
+    telemetry?: Config['telemetry']
+    commands?: CommandHandlers
     commandHandler?: CommandHandler
     commandsSupported?: Command[]
+    commandReplayCache?: ReplayCache
+    commandIssuers: Record<string, CommandIssuer> // keyed by issuer
+    accountProvider?: AccountProvider
+    asyncCommands?: boolean
+    commandQueue?: CommandQueue
     audSubRequired?: boolean
     cookieToken?: boolean // include encrypted cookie in auth response
     cookieDomain?: string // domain for auth cookies (e.g., '.example.com')
+    sessionStore?: SessionStore // Auth kept server-side, cookie holds session id
+    sessionMaxAge?: number
+    sessionIdleTimeout?: number
+    sessionRolling?: boolean
+    accessTokenMaxAge?: number
+    refreshTokenMaxAge?: number
+    tokenRevocationList?: TokenRevocationList
+    logoutList?: LogoutList
     // built from HELLO_API_ROUTE
     apiRoute: string
     authApiRoute: string
@@ -36,12 +72,45 @@ export interface IConfig {
     // for internal testing
     helloDomain: string
     helloWallet: string
-    secret?: string
+    helloIssuer: string
+    secret?: string // current secret, encrypts
+    secrets: string[] // current and previous secrets, all decrypt
     logDebug?: boolean
 }
 
 const HELLO_DOMAIN = (process.env.HELLO_DOMAIN as string) || 'hello.coop'
+// ID tokens are verified against this issuer's JWKS -- a HELLO_WALLET
+// mock server (mockin) is also the issuer of the tokens it mints
+const HELLO_ISSUER =
+    (process.env.HELLO_ISSUER as string) ||
+    (process.env.HELLO_WALLET as string) ||
+    'https://issuer.' + HELLO_DOMAIN
 const HOST = process.env.HOST || process.env.HELLO_HOST || undefined
+// how long a refresh_token is accepted when refreshTokenMaxAge is not set
+export const DEFAULT_REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60 // 30 days
+// a comma or space separated list rotates secrets -- the first encrypts,
+// and cookies encrypted with any of them are accepted and re-encrypted
+const SECRETS = (
+    process.env.COOKIE_SECRET ||
+    (process.env.HELLO_COOKIE_SECRET as string) ||
+    ''
+)
+    .split(/[\s,]+/)
+    .filter((secret) => !!secret)
+
+// OPs whose Command Tokens are always accepted
+const COMMAND_ISSUERS: CommandIssuer[] = [
+    {
+        issuer: 'https://issuer.hello.coop',
+        jwks_uri: 'https://issuer.hello.coop/.well-known/jwks.json',
+    },
+]
+
+// mock (mockin) and test issuers -- never accepted in production
+const MOCK_COMMAND_ISSUERS: CommandIssuer[] = [
+    { issuer: 'http://mockin:3333' },
+    { issuer: 'http://127.0.0.1:3333' },
+]
 
 const _configuration: IConfig = {
     production: process.env.NODE_ENV === 'production',
@@ -58,17 +127,18 @@ const _configuration: IConfig = {
     loginApiRoute: 'not-configured',
     logoutApiRoute: 'not-configured',
     redirectURI: 'not-configured',
+    commandIssuers: {},
     // configured only by process.env or .env
     clientId: '',
-    secret:
-        process.env.COOKIE_SECRET ||
-        (process.env.HELLO_COOKIE_SECRET as string),
+    secret: SECRETS[0],
+    secrets: SECRETS,
     host: HOST,
     // for internal testing
     helloDomain: HELLO_DOMAIN,
     helloWallet:
         (process.env.HELLO_WALLET as string) ||
         'https://wallet.' + HELLO_DOMAIN,
+    helloIssuer: HELLO_ISSUER,
 }
 
 export let isConfigured: boolean = false
@@ -120,13 +190,49 @@ export const configure = function (config: Config) {
             confirmPath('process.env.HELLO_ERROR', process.env.HELLO_ERROR) ||
             confirmPath('config routes.error', config.routes?.error),
     }
+    // HELLO_ALLOWED_REDIRECTS is a comma or space separated list
+    _configuration.allowedRedirects = (
+        process.env.HELLO_ALLOWED_REDIRECTS?.split(/[\s,]+/) ||
+        config.allowedRedirects ||
+        []
+    ).filter((allowed) => {
+        if (!allowed) return false
+        try {
+            new URL(allowed)
+            return true
+        } catch {
+            console.error(`allowedRedirects ${allowed} ignored, not a URL`)
+            return false
+        }
+    })
     ;(_configuration.redirectURI = HOST
         ? `https://${HOST}${apiRoute}`
         : undefined),
         (_configuration.loginSync = config.loginSync)
     _configuration.logoutSync = config.logoutSync
+    _configuration.onEvent = config.onEvent
+    _configuration.telemetry = config.telemetry
+    _configuration.commands = config.commands
     _configuration.commandHandler = config.commandHandler
     _configuration.commandsSupported = config.commandsSupported
+    _configuration.commandReplayCache = config.commandReplayCache
+    // HELLO_COMMAND_ISSUERS is a comma or space separated list of issuer
+    // URLs -- their jwks_uri is discovered
+    const envCommandIssuers = (process.env.HELLO_COMMAND_ISSUERS || '')
+        .split(/[\s,]+/)
+        .filter((issuer) => !!issuer)
+        .map((issuer) => ({ issuer }))
+    _configuration.commandIssuers = Object.fromEntries(
+        [
+            ...COMMAND_ISSUERS,
+            ...(_configuration.production ? [] : MOCK_COMMAND_ISSUERS),
+            ...(config.commandIssuers || []),
+            ...envCommandIssuers,
+        ].map((issuer) => [issuer.issuer, issuer]),
+    )
+    _configuration.accountProvider = config.accountProvider
+    _configuration.asyncCommands = config.asyncCommands
+    _configuration.commandQueue = config.commandQueue
     _configuration.audSubRequired = config.audSubRequired
 
     if (process.env.HELLO_SCOPES)
@@ -160,10 +266,42 @@ export const configure = function (config: Config) {
 
     _configuration.sameSiteStrict =
         !!process.env.HELLO_SAME_SITE_STRICT || config.sameSiteStrict
+    _configuration.responseMode =
+        (process.env.HELLO_RESPONSE_MODE as ResponseMode) || config.responseMode
+    // HELLO_PROVIDER_ISSUER points at another OpenID Provider, its
+    // endpoints are discovered
+    _configuration.provider = process.env.HELLO_PROVIDER_ISSUER
+        ? { issuer: process.env.HELLO_PROVIDER_ISSUER }
+        : config.provider
+    _configuration.helloIssuer = _configuration.provider?.issuer || HELLO_ISSUER
+    _configuration.pushedAuthorizationRequests =
+        !!process.env.HELLO_PUSHED_AUTHORIZATION_REQUESTS ||
+        config.pushedAuthorizationRequests
     _configuration.cookieToken =
         !!process.env.HELLO_COOKIE_TOKEN || config.cookieToken
     _configuration.cookieDomain =
         process.env.HELLO_COOKIE_DOMAIN || config.cookieDomain
+    _configuration.sessionStore = config.sessionStore
+    _configuration.sessionMaxAge =
+        Number(process.env.HELLO_SESSION_MAX_AGE) || config.sessionMaxAge
+    _configuration.sessionIdleTimeout =
+        Number(process.env.HELLO_SESSION_IDLE_TIMEOUT) ||
+        config.sessionIdleTimeout
+    _configuration.sessionRolling = config.sessionRolling
+    _configuration.accessTokenMaxAge =
+        Number(process.env.HELLO_ACCESS_TOKEN_MAX_AGE) ||
+        config.accessTokenMaxAge
+    _configuration.refreshTokenMaxAge =
+        Number(process.env.HELLO_REFRESH_TOKEN_MAX_AGE) ||
+        config.refreshTokenMaxAge
+    _configuration.tokenRevocationList = config.tokenRevocationList
+    _configuration.logoutList = config.logoutList
+    // runtimes without process.env, such as Cloudflare Workers, pass the
+    // secret in the config
+    if (!SECRETS.length && config.secret) {
+        _configuration.secrets = ([] as string[]).concat(config.secret)
+        _configuration.secret = _configuration.secrets[0]
+    }
 
     isConfigured = true
     if (!_configuration.clientId) {
@@ -175,12 +313,15 @@ export const configure = function (config: Config) {
     }
     if (!_configuration.secret) {
         const message =
-            'No COOKIE_SECRET or HELLO_COOKIE_SECRET was in environment'
+            'No COOKIE_SECRET or HELLO_COOKIE_SECRET was in environment or secret in hello.config'
         _configuration.error = [message]
         console.error(message)
         isConfigured = false
     }
-    if (_configuration.secret && !checkSecret(_configuration.secret)) {
+    if (
+        _configuration.secret &&
+        !_configuration.secrets.every((secret) => checkSecret(secret))
+    ) {
         const message = 'HELLO_COOKIE_SECRET is not 32 hex digits'
         _configuration.error = [message]
         console.error(message)
@@ -0,0 +1,55 @@
+// auth events for an audit trail -- passed to config.onEvent, which
+// never holds up or fails the request that raised them
+
+import {
+    AuthEvent,
+    AuthEventHandler,
+    AuthEventType,
+    HelloRequest,
+} from '../types'
+import config from './config'
+import { recordEvent } from './telemetry'
+
+const requestMetadata = (req: HelloRequest): AuthEvent['request'] => {
+    const headers = req.headers?.() || {}
+    return {
+        method: req.method,
+        path: req.path,
+        ip: headers['x-forwarded-for']?.split(',')[0].trim() || undefined,
+        user_agent: headers['user-agent'],
+    }
+}
+
+export const emitEvent = (
+    type: AuthEventType,
+    req?: HelloRequest,
+    details: Omit<AuthEvent, 'type' | 'time' | 'request'> = {},
+) => {
+    const onEvent = config.onEvent
+    if (!onEvent && !config.telemetry?.meter) return
+    const event: AuthEvent = {
+        type,
+        time: new Date().toISOString(),
+        ...(req && { request: requestMetadata(req) }),
+        ...details,
+    }
+    recordEvent(event)
+    if (!onEvent) return
+    try {
+        Promise.resolve(onEvent(event)).catch((e) =>
+            console.error('onEvent failed:', e),
+        )
+    } catch (e) {
+        console.error('onEvent failed:', e)
+    }
+}
+
+// writes each event as a line of JSON, to stdout by default -- pass a
+// file stream to keep an audit log
+export const createJSONLinesSink = (
+    stream: { write: (line: string) => unknown } = process.stdout,
+): AuthEventHandler => {
+    return (event) => {
+        stream.write(JSON.stringify(event) + '\n')
+    }
+}
@@ -0,0 +1,52 @@
+// in-memory map whose entries expire, behind the createMemory* session
+// store, revocation list, replay cache and logout list
+// entries live in this process only -- pass a shared store (Redis, a
+// database, ...) in the config when running more than one server
+
+const now = () => Math.floor(Date.now() / 1000)
+
+// expires is in seconds since the epoch, like a token exp -- an entry
+// without it is kept until deleted
+export const createExpiringMap = <V>() => {
+    const entries = new Map<string, { value: V; expires?: number }>()
+    const isExpired = (expires: number | undefined, time: number) =>
+        expires !== undefined && expires <= time
+    // expired entries are dropped as new ones are set
+    const sweep = () => {
+        const time = now()
+        for (const [key, { expires }] of entries)
+            if (isExpired(expires, time)) entries.delete(key)
+    }
+    const get = (key: string): V | undefined => {
+        const entry = entries.get(key)
+        if (!entry) return undefined
+        if (isExpired(entry.expires, now())) {
+            entries.delete(key)
+            return undefined
+        }
+        return entry.value
+    }
+    const set = (key: string, value: V, expires?: number) => {
+        sweep()
+        entries.set(key, { value, expires })
+    }
+    return {
+        get,
+        set,
+        // sets the entry only if there is none -- true if it was set
+        add: (key: string, value: V, expires?: number): boolean => {
+            if (get(key) !== undefined) return false
+            set(key, value, expires)
+            return true
+        },
+        delete: (key: string) => {
+            entries.delete(key)
+        },
+        // the keys and values of the entries that have not expired
+        entries: function* (): Generator<[string, V]> {
+            const time = now()
+            for (const [key, { value, expires }] of entries)
+                if (!isExpired(expires, time)) yield [key, value]
+        },
+    }
+}
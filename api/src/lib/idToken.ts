@@ -0,0 +1,97 @@
+// verify an ID token issued by Hellō or the configured provider
+// signature is checked against the issuer's published JWKS
+
+import { errors, jwtVerify } from 'jose'
+import { TokenHeader, TokenPayload } from '@hellocoop/definitions'
+
+import config from './config'
+import { getJWKS } from './jwks'
+import { getIdTokenAlgorithms, getProviderIssuer } from './provider'
+
+const ID_TOKEN_TYP = 'JWT' // required of Hellō ID tokens only
+const CLOCK_SKEW = 5 // seconds
+
+export interface IdTokenError {
+    error: string
+    error_description: string
+}
+
+// sid is the OP session for back-channel logout, auth_time is sent when
+// max_age was requested
+export type IdTokenPayload = TokenPayload & {
+    sid?: string
+    auth_time?: number
+}
+
+export interface VerifiedIdToken {
+    header: TokenHeader
+    payload: IdTokenPayload
+}
+
+const invalidRequest = (error_description: string): IdTokenError => ({
+    error: 'invalid_request',
+    error_description,
+})
+
+// map jose verification failures to the errors we return from the token exchange
+const verificationError = (e: unknown): IdTokenError => {
+    if (e instanceof errors.JWTExpired && e.claim === 'exp')
+        return invalidRequest('The ID token has expired.')
+    if (e instanceof errors.JWTClaimValidationFailed) {
+        if (e.claim === 'aud')
+            return {
+                error: 'invalid_client',
+                error_description: 'Wrong ID token audience',
+            }
+        if (e.claim === 'iss') return invalidRequest('Wrong ID token issuer')
+        if (e.claim === 'typ')
+            return invalidRequest(`"typ" header must be "${ID_TOKEN_TYP}"`)
+        return invalidRequest(`Invalid ID token ${e.claim} claim`)
+    }
+    if (e instanceof errors.JOSEAlgNotAllowed)
+        return invalidRequest('ID token "alg" is not allowed')
+    if (e instanceof errors.JWSSignatureVerificationFailed)
+        return invalidRequest('ID token signature verification failed')
+    if (e instanceof errors.JWKSNoMatchingKey)
+        return invalidRequest('No issuer key matches the ID token')
+    if (e instanceof errors.JWSInvalid || e instanceof errors.JWTInvalid)
+        return invalidRequest('Malformed ID token')
+    return {
+        error: 'server_error',
+        error_description: 'Could not verify ID token',
+    }
+}
+
+// Verifies the signature, alg, typ (for Hellō), iss, aud, exp and iat of an
+// ID token, and the nonce if one is passed. Can be used for ID tokens that
+// did not come from our own code exchange.
+export const verifyIdToken = async (
+    token: string,
+    nonce?: string,
+): Promise<VerifiedIdToken | IdTokenError> => {
+    let verified
+    try {
+        const jwks = await getJWKS(getProviderIssuer())
+        verified = await jwtVerify(token, jwks, {
+            issuer: config.helloIssuer,
+            audience: config.clientId,
+            algorithms: await getIdTokenAlgorithms(),
+            typ: config.provider ? undefined : ID_TOKEN_TYP,
+            requiredClaims: ['sub', 'iat', 'exp'],
+        })
+    } catch (e) {
+        console.error('idToken.verifyIdToken:', e)
+        return verificationError(e)
+    }
+    const header = verified.protectedHeader as TokenHeader
+    const payload = verified.payload as IdTokenPayload
+
+    if (nonce !== undefined && payload.nonce != nonce)
+        return invalidRequest('Wrong nonce in ID token')
+
+    const currentTimeInt = Math.floor(Date.now() / 1000)
+    if (payload.iat > currentTimeInt + CLOCK_SKEW)
+        return invalidRequest('The ID token is not yet valid')
+
+    return { header, payload }
+}
@@ -0,0 +1,58 @@
+// metadata discovery and JWKS caching for issuers that sign tokens
+// we verify (ID tokens and OP command tokens)
+
+import { createLocalJWKSet, createRemoteJWKSet, JSONWebKeySet } from 'jose'
+
+export interface JWKSIssuer {
+    issuer: string
+    jwks_uri?: string // discovered via .well-known/openid-configuration if not set
+    jwks?: JSONWebKeySet // static keys, nothing is fetched
+}
+
+// createRemoteJWKSet caches the key set and refetches it when a token
+// carries a kid it has not seen, so key rotation at the issuer is picked up
+const jwksCache: Record<string, ReturnType<typeof createRemoteJWKSet>> = {}
+
+// metadata is refetched after an hour so endpoint and key changes at the
+// issuer are picked up
+const METADATA_MAX_AGE = 60 * 60 * 1000 // 1 hour in ms
+const metadataCache: Record<
+    string,
+    { metadata: Record<string, unknown>; expires: number }
+> = {}
+
+// the issuer's .well-known/openid-configuration document
+export const getIssuerMetadata = async (
+    issuer: string,
+): Promise<Record<string, unknown>> => {
+    const cached = metadataCache[issuer]
+    if (cached && cached.expires > Date.now()) return cached.metadata
+    const configURL =
+        issuer.replace(/\/$/, '') + '/.well-known/openid-configuration'
+    const response = await fetch(configURL)
+    if (!response.ok)
+        throw new Error(`could not fetch ${configURL}: ${response.status}`)
+    const json = await response.json()
+    metadataCache[issuer] = {
+        metadata: json,
+        expires: Date.now() + METADATA_MAX_AGE,
+    }
+    return json
+}
+
+export const discoverJWKSURI = async (issuer: string): Promise<string> => {
+    const metadata = await getIssuerMetadata(issuer)
+    if (!metadata.jwks_uri)
+        throw new Error(`no jwks_uri in ${issuer} openid-configuration`)
+    return metadata.jwks_uri as string
+}
+
+export const getJWKS = async (issuer: JWKSIssuer) => {
+    if (issuer.jwks) return createLocalJWKSet(issuer.jwks)
+    const cached = jwksCache[issuer.issuer]
+    if (cached) return cached
+    const jwks_uri = issuer.jwks_uri || (await discoverJWKSURI(issuer.issuer))
+    const jwks = createRemoteJWKSet(new URL(jwks_uri))
+    jwksCache[issuer.issuer] = jwks
+    return jwks
+}
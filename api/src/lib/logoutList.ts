@@ -0,0 +1,53 @@
+// back-channel logout for sessions that can't be destroyed server-side
+// a cookie-only session, or a sessionStore without destroyMatching, is
+// ended by recording when its sub or sid was logged out -- sessions and
+// tokens issued before then are no longer accepted
+
+import { Auth } from '@hellocoop/definitions'
+
+import { LogoutList } from '../types'
+import config, { DEFAULT_REFRESH_TOKEN_MAX_AGE } from './config'
+import { createExpiringMap } from './expiringMap'
+
+// in-memory LogoutList
+export const createMemoryLogoutList = (): LogoutList => {
+    const logouts = createExpiringMap<number>() // key -> time of the logout
+    return {
+        add: async (key, time, exp) => logouts.set(key, time, exp),
+        get: async (key) => logouts.get(key),
+    }
+}
+
+// used when config.logoutList is not set
+const memoryLogoutList = createMemoryLogoutList()
+const getLogoutList = () => config.logoutList || memoryLogoutList
+
+const keys = (match: { sub?: string; sid?: string }): string[] => [
+    ...(match.sub ? [`sub:${match.sub}`] : []),
+    ...(match.sid ? [`sid:${match.sid}`] : []),
+]
+
+export const recordLogout = async (match: { sub?: string; sid?: string }) => {
+    const time = Math.floor(Date.now() / 1000)
+    // kept while a session or refresh_token from before the logout could
+    // still be used -- forever when sessions have no maximum age
+    const exp = config.sessionMaxAge
+        ? time +
+          Math.max(
+              config.sessionMaxAge,
+              config.refreshTokenMaxAge || DEFAULT_REFRESH_TOKEN_MAX_AGE,
+          )
+        : undefined
+    for (const key of keys(match)) await getLogoutList().add(key, time, exp)
+}
+
+// true if the session was started before a back-channel logout of its
+// sub or sid
+export const isLoggedOut = async (auth: Auth): Promise<boolean> => {
+    if (!auth.isLoggedIn) return false
+    for (const key of keys(auth)) {
+        const time = await getLogoutList().get(key)
+        if (time !== undefined && auth.iat <= time) return true
+    }
+    return false
+}
@@ -0,0 +1,68 @@
+// verify a Back-Channel Logout token issued by Hellō
+// https://openid.net/specs/openid-connect-backchannel-1_0.html
+
+import { jwtVerify } from 'jose'
+
+import config from './config'
+import { getJWKS } from './jwks'
+import { getIdTokenAlgorithms, getProviderIssuer } from './provider'
+import { createMemoryReplayCache } from './replayCache'
+
+const BACKCHANNEL_LOGOUT_EVENT =
+    'http://schemas.openid.net/event/backchannel-logout'
+
+export interface LogoutTokenError {
+    error: string
+    error_description: string
+}
+
+// identifies the sessions to end -- at least one of sub and sid is present
+export interface VerifiedLogoutToken {
+    iss: string
+    sub?: string
+    sid?: string
+}
+
+// used when config.commandReplayCache is not set
+const memoryReplayCache = createMemoryReplayCache()
+
+const invalidRequest = (error_description: string): LogoutTokenError => ({
+    error: 'invalid_request',
+    error_description,
+})
+
+export const verifyLogoutToken = async (
+    token: string,
+): Promise<VerifiedLogoutToken | LogoutTokenError> => {
+    let payload
+    try {
+        const jwks = await getJWKS(getProviderIssuer())
+        const verified = await jwtVerify(token, jwks, {
+            issuer: config.helloIssuer,
+            audience: config.clientId,
+            algorithms: await getIdTokenAlgorithms(),
+            requiredClaims: ['iat', 'exp', 'jti', 'events'],
+        })
+        payload = verified.payload
+    } catch (e) {
+        console.error('logoutToken.verifyLogoutToken:', e)
+        return invalidRequest('logout token verification failed')
+    }
+    const events = payload.events as Record<string, unknown> | undefined
+    if (typeof events !== 'object' || !events?.[BACKCHANNEL_LOGOUT_EVENT])
+        return invalidRequest('missing back-channel logout event')
+    if ('nonce' in payload)
+        // prohibited so an ID token can't be used as a logout token
+        return invalidRequest('nonce claim must not be present')
+    const sub = payload.sub
+    const sid = payload.sid as string | undefined
+    if (!sub && !sid) return invalidRequest('missing sub and sid claims')
+    // a logout token replayed after a new login must not end that session
+    const replayCache = config.commandReplayCache || memoryReplayCache
+    const firstUse = await replayCache.add(
+        `${payload.iss} ${payload.jti}`,
+        payload.exp as number,
+    )
+    if (!firstUse) return invalidRequest('logout token has already been used')
+    return { iss: payload.iss as string, sub, sid }
+}
@@ -1,7 +1,8 @@
 import config from './config'
-import { HelloRequest, HelloResponse } from '../types'
+import { HelloRequest, HelloResponse, ResponseMode } from '../types'
 import { parse } from 'cookie'
 import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+import { emitEvent } from './events'
 
 const {
     cookies: { oidcName },
@@ -12,24 +13,38 @@ export type OIDC = {
     nonce: string
     redirect_uri: string
     target_uri: string
+    response_mode?: ResponseMode
+    state?: string // OAuth state sent in the authorization request
+    max_age?: number // seconds, when a recent authentication was requested
+    prompt?: string
 }
 
+// each pending login has its own cookie keyed by its state, so
+// concurrent logins in several tabs don't overwrite each other
+const cookieName = (state?: string) =>
+    state ? `${oidcName}_${state}` : oidcName
+
 export const getOidc = async (
     req: HelloRequest,
     res: HelloResponse,
+    state?: string,
 ): Promise<OIDC | undefined> => {
     try {
         const cookies = parse(req.headers()?.cookie || '')
-        const oidcCookie = cookies[oidcName]
+        const oidcCookie = cookies[cookieName(state)]
         if (!oidcCookie) return undefined
-        const oidc = (await decryptObj(oidcCookie, config.secret as string)) as
+        const oidc = (await decryptObj(oidcCookie, config.secrets)) as
             | OIDC
             | undefined
-        if (oidc) {
+        if (oidc && oidc.state === state) {
             return oidc
         }
+        if (!oidc)
+            emitEvent('cookie_decrypt_failed', req, {
+                cookie: cookieName(state),
+            })
     } catch (e) {
-        clearOidcCookie(res)
+        clearOidcCookie(res, state)
         console.error(e)
     }
     return undefined
@@ -45,10 +60,17 @@ export const saveOidc = async (
     if (apiRoute === '/') apiRoute = req.path
     try {
         const encCookie = await encryptObj(oidc, config.secret as string)
-        res.setCookie(oidcName, encCookie, {
+        // a form_post response is a cross-site POST, which only carries
+        // SameSite=None cookies -- and browsers require those to be Secure
+        const formPost = oidc.response_mode === 'form_post'
+        res.setCookie(cookieName(oidc.state), encCookie, {
             httpOnly: true,
-            secure: config.production,
-            sameSite: config.sameSiteStrict ? 'strict' : 'lax',
+            secure: formPost || config.production,
+            sameSite: formPost
+                ? 'none'
+                : config.sameSiteStrict
+                  ? 'strict'
+                  : 'lax',
             maxAge: 5 * 60, // 5 minutes
             path: apiRoute,
         })
@@ -57,8 +79,8 @@ export const saveOidc = async (
     }
 }
 
-export const clearOidcCookie = (res: HelloResponse) => {
-    res.setCookie(oidcName, '', {
+export const clearOidcCookie = (res: HelloResponse, state?: string) => {
+    res.setCookie(cookieName(state), '', {
         expires: new Date(0), // Set the expiry date to a date in the past
         path: apiRoute,
     })
@@ -0,0 +1,92 @@
+// endpoints of the OpenID Provider we log users in with -- Hellō by
+// default, or any OIDC issuer set with the provider config
+
+import { OIDCProvider } from '../types'
+import config from './config'
+import { getIssuerMetadata } from './jwks'
+
+export type ProviderEndpoints = {
+    issuer: string
+    authorization_endpoint: string
+    token_endpoint: string
+    pushed_authorization_request_endpoint?: string
+    end_session_endpoint?: string
+}
+
+const endpoints = (
+    provider: OIDCProvider,
+    metadata: Record<string, unknown> = {},
+): ProviderEndpoints => {
+    const endpoint = (name: keyof OIDCProvider) =>
+        (provider[name] || metadata[name]) as string | undefined
+    const authorization_endpoint = endpoint('authorization_endpoint')
+    const token_endpoint = endpoint('token_endpoint')
+    if (!authorization_endpoint || !token_endpoint)
+        throw new Error(
+            `no authorization_endpoint or token_endpoint for ${provider.issuer}`,
+        )
+    return {
+        issuer: provider.issuer,
+        authorization_endpoint,
+        token_endpoint,
+        pushed_authorization_request_endpoint: endpoint(
+            'pushed_authorization_request_endpoint',
+        ),
+        end_session_endpoint: endpoint('end_session_endpoint'),
+    }
+}
+
+// Hellō's endpoints are on the wallet and are not discovered, so
+// HELLO_WALLET can point at a mock server (mockin)
+const helloEndpoints = (): ProviderEndpoints => ({
+    issuer: config.helloIssuer,
+    authorization_endpoint: config.helloWallet + '/authorize',
+    token_endpoint: config.helloWallet + '/oauth/token',
+})
+
+export const getProviderEndpoints = async (): Promise<ProviderEndpoints> => {
+    const provider = config.provider
+    if (!provider) return helloEndpoints()
+    // explicitly configured endpoints need no discovery
+    if (provider.authorization_endpoint && provider.token_endpoint)
+        return endpoints(provider)
+    return endpoints(provider, await getIssuerMetadata(provider.issuer))
+}
+
+// Hellō publishes its PAR endpoint in the issuer metadata
+export const getPushedAuthorizationRequestEndpoint =
+    async (): Promise<string> => {
+        const endpoints = await getProviderEndpoints()
+        const endpoint =
+            endpoints.pushed_authorization_request_endpoint ||
+            (config.provider
+                ? undefined
+                : ((await getIssuerMetadata(config.helloIssuer))
+                      .pushed_authorization_request_endpoint as string))
+        if (!endpoint)
+            throw new Error(
+                `no pushed_authorization_request_endpoint for ${endpoints.issuer}`,
+            )
+        return endpoint
+    }
+
+// the issuer and keys ID tokens and logout tokens are verified with
+export const getProviderIssuer = (): OIDCProvider =>
+    config.provider || { issuer: config.helloIssuer }
+
+// Hellō signs ID tokens and logout tokens with RS256 -- other providers
+// publish their algs, and RS256 is the OIDC default when they don't or
+// discovery is not used
+export const getIdTokenAlgorithms = async (): Promise<string[]> => {
+    const provider = config.provider
+    if (!provider) return ['RS256']
+    if (provider.id_token_signing_alg_values_supported)
+        return provider.id_token_signing_alg_values_supported
+    if (provider.jwks || provider.jwks_uri) return ['RS256']
+    const metadata = await getIssuerMetadata(provider.issuer)
+    const algs = metadata.id_token_signing_alg_values_supported as
+        | string[]
+        | undefined
+    // unsigned tokens are never accepted
+    return algs?.filter((alg) => alg !== 'none') || ['RS256']
+}
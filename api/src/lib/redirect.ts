@@ -0,0 +1,75 @@
+// open redirect protection for target_uri
+// a target_uri is only followed if it is same-origin, or matches an
+// origin or path prefix in config.allowedRedirects
+
+import { HelloRequest } from '../types'
+import config from './config'
+
+// stands in for our origin when it is not known, so that only
+// relative target_uris are same-origin
+const UNKNOWN_ORIGIN = 'https://unknown-origin.invalid'
+
+// our origin derived from the request when HELLO_HOST is not configured
+export const getRequestOrigin = (req: HelloRequest): string | undefined => {
+    const headers = req.headers()
+    const host = headers['x-forwarded-host'] || headers['host']
+    if (!host) return undefined
+    const protocol =
+        headers['x-forwarded-proto'] ||
+        (host.startsWith('localhost') || host.startsWith('127.0.0.1')
+            ? 'http'
+            : 'https')
+    return `${protocol}://${host}`
+}
+
+const originOf = (url: string | undefined): string => {
+    try {
+        if (url) return new URL(url).origin
+    } catch {
+        // not an absolute URL
+    }
+    return UNKNOWN_ORIGIN
+}
+
+// a path prefix matches whole segments -- /app allows /app and /app/x,
+// but not /app-evil
+const isUnderPath = (pathname: string, prefix: string): boolean => {
+    const dir = prefix.endsWith('/') ? prefix : prefix + '/'
+    return pathname === prefix || pathname.startsWith(dir)
+}
+
+// ourURL is any URL at our origin, such as the redirect_uri
+export const isAllowedRedirect = (
+    target_uri: string,
+    ourURL?: string,
+): boolean => {
+    const origin = originOf(ourURL)
+    let url: URL
+    try {
+        url = new URL(target_uri, origin)
+    } catch {
+        return false
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return false
+    if (url.origin === origin) return true
+    return (config.allowedRedirects || []).some((allowed) => {
+        const allowedURL = new URL(allowed)
+        return (
+            url.origin === allowedURL.origin &&
+            isUnderPath(url.pathname, allowedURL.pathname)
+        )
+    })
+}
+
+// the target_uri if it may be followed, otherwise undefined so the
+// caller falls back to a configured route
+export const safeTargetURI = (
+    target_uri: string | string[] | undefined,
+    ourURL?: string,
+): string | undefined => {
+    const uri = Array.isArray(target_uri) ? target_uri[0] : target_uri
+    if (!uri) return undefined
+    if (isAllowedRedirect(uri, ourURL)) return uri
+    console.error('target_uri rejected, not an allowed redirect:', uri)
+    return undefined
+}
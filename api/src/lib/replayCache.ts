@@ -0,0 +1,12 @@
+// in-memory ReplayCache
+// entries are dropped once the token they guard has expired
+
+import { ReplayCache } from '../types'
+import { createExpiringMap } from './expiringMap'
+
+export const createMemoryReplayCache = (): ReplayCache => {
+    const seen = createExpiringMap<true>() // key, until the token's exp
+    return {
+        add: async (key, exp) => seen.add(key, true, exp),
+    }
+}
@@ -0,0 +1,13 @@
+// in-memory TokenRevocationList
+// entries are dropped once the token they revoke has expired
+
+import { TokenRevocationList } from '../types'
+import { createExpiringMap } from './expiringMap'
+
+export const createMemoryRevocationList = (): TokenRevocationList => {
+    const revoked = createExpiringMap<true>() // jti, until the token's exp
+    return {
+        revoke: async (jti, exp) => revoked.add(jti, true, exp),
+        isRevoked: async (jti) => revoked.get(jti) !== undefined,
+    }
+}
@@ -0,0 +1,42 @@
+// in-memory SessionStore
+
+import { Auth } from '@hellocoop/definitions'
+import { randomBytes } from 'crypto'
+
+import { SessionStore } from '../types'
+import { createExpiringMap } from './expiringMap'
+
+export const createSessionId = (): string =>
+    randomBytes(32).toString('base64url')
+
+export const createMemorySessionStore = (): SessionStore => {
+    const sessions = createExpiringMap<Auth>()
+    return {
+        // return copies so callers can't mutate the stored Auth
+        get: async (sid) => {
+            const auth = sessions.get(sid)
+            return auth && { ...auth }
+        },
+        set: async (sid, auth, maxAge) => {
+            sessions.set(
+                sid,
+                { ...auth },
+                maxAge !== undefined
+                    ? Math.floor(Date.now() / 1000) + maxAge
+                    : undefined,
+            )
+        },
+        destroy: async (sid) => {
+            sessions.delete(sid)
+        },
+        destroyMatching: async (match) => {
+            if (!match.sub && !match.sid) return
+            for (const [sid, auth] of sessions.entries()) {
+                if (!auth.isLoggedIn) continue
+                if (match.sub && auth.sub !== match.sub) continue
+                if (match.sid && auth.sid !== match.sid) continue
+                sessions.delete(sid)
+            }
+        },
+    }
+}
@@ -0,0 +1,19 @@
+// step-up authentication
+// sensitive routes can require that the user authenticated at Hellō
+// recently -- auth_time is captured when max_age is sent at login
+
+import { Auth } from '@hellocoop/definitions'
+
+import config from './config'
+
+// true if the user authenticated within the last maxAge seconds
+export const isRecentAuth = (auth: Auth, maxAge: number): boolean => {
+    if (!auth.isLoggedIn || !auth.auth_time) return false
+    return Math.floor(Date.now() / 1000) - auth.auth_time <= maxAge
+}
+
+// the login op that re-authenticates the user and returns to target_uri
+export const getReauthURL = (maxAge: number, target_uri: string): string =>
+    config.loginApiRoute +
+    '&' +
+    new URLSearchParams({ max_age: String(maxAge), target_uri })
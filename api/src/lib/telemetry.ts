@@ -0,0 +1,126 @@
+// OpenTelemetry spans and metrics, recorded when config.telemetry has a
+// tracer and/or meter -- @hellocoop/api does not depend on
+// @opentelemetry/api, the app passes its own tracer and meter
+
+import {
+    AuthEvent,
+    HelloRequest,
+    TelemetryMeter,
+    TelemetrySpan,
+} from '../types'
+import config from './config'
+
+const SPAN_STATUS_ERROR = 2 // SpanStatusCode.ERROR
+
+type Instruments = {
+    logins: ReturnType<TelemetryMeter['createCounter']>
+    loginFailures: ReturnType<TelemetryMeter['createCounter']>
+    tokenEndpointDuration: ReturnType<TelemetryMeter['createHistogram']>
+}
+
+// instruments are created once for each meter
+const instrumentsCache = new WeakMap<TelemetryMeter, Instruments>()
+
+const getInstruments = (): Instruments | undefined => {
+    const meter = config.telemetry?.meter
+    if (!meter) return undefined
+    let instruments = instrumentsCache.get(meter)
+    if (!instruments) {
+        instruments = {
+            logins: meter.createCounter('hellocoop.logins', {
+                description: 'Successful logins',
+            }),
+            loginFailures: meter.createCounter('hellocoop.login.failures', {
+                description: 'Failed logins by OAuth error',
+            }),
+            tokenEndpointDuration: meter.createHistogram(
+                'hellocoop.token_endpoint.duration',
+                {
+                    description: 'Duration of token endpoint calls',
+                    unit: 's',
+                },
+            ),
+        }
+        instrumentsCache.set(meter, instruments)
+    }
+    return instruments
+}
+
+const endWithError = (span: TelemetrySpan | undefined, e: unknown) => {
+    if (!span) return
+    span.recordException(e as Error)
+    span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: (e as Error)?.message,
+    })
+}
+
+// run a router op in its own span -- calls made while handling it, such
+// as the token endpoint, are child spans
+export const traceOp = async <T>(
+    op: string,
+    req: HelloRequest,
+    fn: () => Promise<T>,
+): Promise<T> => {
+    const tracer = config.telemetry?.tracer
+    if (!tracer) return fn()
+    return tracer.startActiveSpan(
+        `hellocoop ${op}`,
+        {
+            attributes: {
+                'hellocoop.op': op,
+                'http.request.method': req.method,
+            },
+        },
+        async (span) => {
+            try {
+                return await fn()
+            } catch (e) {
+                endWithError(span, e)
+                throw e
+            } finally {
+                span.end()
+            }
+        },
+    )
+}
+
+export const traceTokenEndpoint = async <T>(
+    token_endpoint: string,
+    fn: () => Promise<T>,
+): Promise<T> => {
+    const tracer = config.telemetry?.tracer
+    const instruments = getInstruments()
+    if (!tracer && !instruments) return fn()
+    const span = tracer?.startSpan('hellocoop token_endpoint', {
+        attributes: { 'url.full': token_endpoint },
+    })
+    const start = performance.now()
+    let outcome = 'success'
+    try {
+        return await fn()
+    } catch (e) {
+        outcome = 'error'
+        endWithError(span, e)
+        throw e
+    } finally {
+        span?.end()
+        instruments?.tokenEndpointDuration.record(
+            (performance.now() - start) / 1000,
+            { outcome },
+        )
+    }
+}
+
+// logins and failures are counted from the auth events
+export const recordEvent = (event: AuthEvent) => {
+    if (event.type !== 'login_succeeded' && event.type !== 'login_failed')
+        return
+    const instruments = getInstruments()
+    if (!instruments) return
+    if (event.type === 'login_succeeded') instruments.logins.add(1)
+    else
+        instruments.loginFailures.add(1, {
+            error: event.error || 'unknown',
+        })
+}
@@ -4,6 +4,14 @@ export interface WildCard {
     appName: string
     redirectURI: string
 }
+
+// the values come from the query, so they are escaped for the HTML or
+// the script they land in
+const escapeHTML = (value: string = ''): string =>
+    String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+const scriptString = (value: string = ''): string =>
+    JSON.stringify(String(value)).replace(/</g, '\\u003c')
+
 export function wildcardConsole({
     uri,
     targetURI,
@@ -74,8 +82,8 @@ export function wildcardConsole({
                 </style>
                 <script>
                     function addToRedirectURI(){
-                        window.open("${uri}", "_blank")
-                        window.location.href = "${targetURI}"
+                        window.open(${scriptString(uri)}, "_blank")
+                        window.location.href = ${scriptString(targetURI)}
                     }
                 </script>
             </head>
@@ -84,11 +92,11 @@ export function wildcardConsole({
                 <main>
                     <h1>The following Redirect URI is not configured for</h1>
                     <p>
-                        <span>${appName}</span><br/>
-                        <span>${redirectURI}</span><br/>
+                        <span>${escapeHTML(appName)}</span><br/>
+                        <span>${escapeHTML(redirectURI)}</span><br/>
                     </p>
                     <button onClick="addToRedirectURI()">Add to Redirect URIs</button><br/>
-                    <a href="${targetURI}">Do this later</a>
+                    <a href="${escapeHTML(targetURI)}">Do this later</a>
                 </main>
             </body>
         </html>
@@ -1,7 +1,14 @@
 // Helle router types
 
-import type { Claims, Scope, ProviderHint, Auth } from '@hellocoop/definitions'
+import type {
+    Claims,
+    Scope,
+    ProviderHint,
+    Auth,
+    AuthResponseMode,
+} from '@hellocoop/definitions'
 import type { SerializeOptions } from 'cookie'
+import type { JSONWebKeySet } from 'jose'
 
 // export type CallbackRequest = {
 //     getHeaders: () => Record<string, string>,
@@ -15,6 +22,10 @@ import type { SerializeOptions } from 'cookie'
 
 export type GenericSync = (params: any) => Promise<any>
 
+// how the authorization response is returned to the API route --
+// form_post keeps the code out of URLs, referrers and logs
+export type ResponseMode = Extract<AuthResponseMode, 'query' | 'form_post'>
+
 export type LoginSyncParams = {
     token: string
     payload: Claims
@@ -29,6 +40,12 @@ export type LoginSyncResponse = {
 
 export type LogoutSyncResponse = null | Error
 
+// passed when logoutSync is called for a back-channel logout
+export type LogoutSyncParams = {
+    sub?: string
+    sid?: string
+}
+
 type LoginSyncWrapper = (
     loginSync: GenericSync,
     params: LoginSyncParams,
@@ -36,25 +53,188 @@ type LoginSyncWrapper = (
 
 type LogoutSyncWrapper = (
     logoutSync: GenericSync,
+    params?: LogoutSyncParams,
 ) => Promise<LogoutSyncResponse>
 
+// server-side storage of the Auth object -- when configured, the auth
+// cookie carries only an opaque session id
+export interface SessionStore {
+    get: (sid: string) => Promise<Auth | undefined>
+    // maxAge (seconds) is set when a session lifetime policy is configured
+    set: (sid: string, auth: Auth, maxAge?: number) => Promise<void>
+    destroy: (sid: string) => Promise<void>
+    // ends every session for the sub and/or OP session id (the sid claim
+    // of the ID token) -- required for back-channel logout
+    destroyMatching?: (match: { sub?: string; sid?: string }) => Promise<void>
+}
+
+// remembers the jti of used tokens so they can't be replayed
+export interface ReplayCache {
+    // records key until exp (seconds), false if key was already recorded
+    add: (key: string, exp: number) => Promise<boolean>
+}
+
+// revoked mobile access and refresh tokens, by jti
+export interface TokenRevocationList {
+    // records jti until exp (seconds), false if it was already revoked
+    revoke: (jti: string, exp: number) => Promise<boolean>
+    isRevoked: (jti: string) => Promise<boolean>
+}
+
+// the parts of an OpenTelemetry Tracer and Meter that are used, so types
+// do not depend on @opentelemetry/api -- its Tracer and Meter fit these
+type TelemetryAttributes = Record<string, string | number | boolean | undefined>
+
+export interface TelemetrySpan {
+    recordException: (exception: Error) => void
+    setStatus: (status: { code: number; message?: string }) => unknown
+    end: () => void
+}
+
+export interface TelemetryTracer {
+    startSpan: (
+        name: string,
+        options?: { attributes?: TelemetryAttributes },
+    ) => TelemetrySpan
+    startActiveSpan: <F extends (span: TelemetrySpan) => unknown>(
+        name: string,
+        options: { attributes?: TelemetryAttributes },
+        fn: F,
+    ) => ReturnType<F>
+}
+
+type InstrumentOptions = { description?: string; unit?: string }
+
+export interface TelemetryMeter {
+    createCounter: (
+        name: string,
+        options?: InstrumentOptions,
+    ) => { add: (value: number, attributes?: TelemetryAttributes) => void }
+    createHistogram: (
+        name: string,
+        options?: InstrumentOptions,
+    ) => { record: (value: number, attributes?: TelemetryAttributes) => void }
+}
+
+// back-channel logouts of a sub or sid, for sessions a sessionStore can't
+// destroy -- keys are 'sub:<sub>' and 'sid:<sid>'
+export interface LogoutList {
+    // records the logout time (seconds) for key, kept until exp if set
+    add: (key: string, time: number, exp?: number) => Promise<void>
+    // the time key was last logged out
+    get: (key: string) => Promise<number | undefined>
+}
+
+// an OP whose Command Tokens are accepted
+export type CommandIssuer = {
+    issuer: string
+    jwks_uri?: string // discovered via .well-known/openid-configuration if not set
+    jwks?: JSONWebKeySet // static keys, used instead of fetching jwks_uri
+    // where async command results are POSTed -- discovered from
+    // command_callback_endpoint in .well-known/openid-configuration if not set
+    command_callback_endpoint?: string
+}
+
+// the OpenID Provider we log users in with -- endpoints not set are
+// discovered from the issuer's .well-known/openid-configuration
+export type OIDCProvider = {
+    issuer: string
+    authorization_endpoint?: string
+    token_endpoint?: string
+    pushed_authorization_request_endpoint?: string
+    jwks_uri?: string
+    jwks?: JSONWebKeySet // static keys, used instead of fetching jwks_uri
+    id_token_signing_alg_values_supported?: string[] // discovered if not set
+    end_session_endpoint?: string // logout also ends the session at the OP
+}
+
+// audit trail of authentication activity, passed to Config.onEvent
+export type AuthEventType =
+    | 'login_started'
+    | 'login_succeeded'
+    | 'login_failed'
+    | 'logout'
+    | 'backchannel_logout'
+    | 'command_received'
+    | 'cookie_decrypt_failed'
+    | 'tokens_refreshed'
+
+export type AuthEventRequest = {
+    method?: string
+    path?: string
+    ip?: string // first x-forwarded-for address
+    user_agent?: string
+}
+
+export type AuthEvent = {
+    type: AuthEventType
+    time: string // ISO 8601
+    request?: AuthEventRequest
+    sub?: string
+    error?: string // OAuth error for login_failed
+    error_description?: string
+    [key: string]: unknown // details for the event type
+}
+
+export type AuthEventHandler = (event: AuthEvent) => void | Promise<void>
+
+// an Asynchronous Account Command waiting to be run
+export type CommandJob = {
+    job_id: string
+    claims: CommandClaims
+}
+
+// pass jobs to processCommandJob() -- in this process or in a worker
+export interface CommandQueue {
+    enqueue: (job: CommandJob) => Promise<void>
+}
+
 export interface Config {
     client_id?: string
+    // when HELLO_COOKIE_SECRET is not set -- a list rotates secrets as the
+    // environment variable does, the first encrypts
+    secret?: string | string[]
     scope?: Scope[]
     provider_hint?: ProviderHint[]
     sameSiteStrict?: boolean
+    responseMode?: ResponseMode
+    provider?: OIDCProvider // defaults to Hellō
+    // login parameters are POSTed to the provider's PAR endpoint and the
+    // browser is redirected with only client_id and request_uri
+    pushedAuthorizationRequests?: boolean
     loginSync?: GenericSync
     logoutSync?: GenericSync
+    onEvent?: AuthEventHandler // see createJSONLinesSink
+    // OpenTelemetry spans for each op and the token endpoint, and login
+    // and token endpoint metrics
+    telemetry?: { tracer?: TelemetryTracer; meter?: TelemetryMeter }
+    commands?: CommandHandlers // commands_supported is derived from the keys
     commandHandler?: CommandHandler
     commandsSupported?: Command[]
+    commandReplayCache?: ReplayCache // also remembers logout token jtis
+    commandIssuers?: CommandIssuer[] // accepted in addition to Hellō
+    accountProvider?: AccountProvider // answers audit and audit_tenant
+    asyncCommands?: boolean // run *_async commands with the commands registry
+    commandQueue?: CommandQueue // defaults to an in-memory queue
     audSubRequired?: boolean
     routes?: {
         loggedIn?: string
         loggedOut?: string
         error?: string
     }
+    // origins or URL path prefixes a target_uri may redirect to in
+    // addition to our own origin
+    allowedRedirects?: string[]
     cookieToken?: boolean
     cookieDomain?: string
+    sessionStore?: SessionStore
+    sessionMaxAge?: number // absolute session lifetime in seconds from login
+    sessionIdleTimeout?: number // seconds of inactivity before a session ends
+    sessionRolling?: boolean // requests renew the idle timeout, default true
+    accessTokenMaxAge?: number // seconds, mobile access_token, default 1 hour
+    refreshTokenMaxAge?: number // seconds, mobile refresh_token, default 30 days
+    tokenRevocationList?: TokenRevocationList // defaults to in-memory
+    logoutList?: LogoutList // defaults to in-memory
     logConfig?: boolean
     apiRoute?: string
 }
@@ -85,15 +265,14 @@ export type HelloResponse = {
 
 // OpenID Provider Commands draft-02
 // https://github.com/openid/openid-provider-commands
-export type Command =
-    // Tenant Commands
-    | 'metadata'
+export type TenantCommand =
     | 'audit_tenant'
     | 'suspend_tenant'
     | 'archive_tenant'
     | 'delete_tenant'
     | 'invalidate_tenant'
-    // Account Commands
+
+export type AccountCommand =
     | 'activate'
     | 'maintain'
     | 'suspend'
@@ -104,6 +283,13 @@ export type Command =
     | 'audit'
     | 'invalidate'
     | 'migrate'
+
+export type Command =
+    // Tenant Commands
+    | 'metadata'
+    | TenantCommand
+    // Account Commands
+    | AccountCommand
     // Asynchronous Account Commands
     | 'activate_async'
     | 'maintain_async'
@@ -145,3 +331,106 @@ export type CommandHandler = (
     res: HelloResponse,
     claims: CommandClaims,
 ) => void | Promise<void>
+
+// Account Commands always identify the account
+export type AccountCommandClaims<C extends AccountCommand = AccountCommand> =
+    CommandClaims & {
+        command: C
+        sub: string
+    }
+
+// Tenant Commands apply to every account in the tenant
+export type TenantCommandClaims<C extends TenantCommand = TenantCommand> =
+    CommandClaims & {
+        command: C
+        sub?: never
+        aud_sub?: never
+    }
+
+export type AccountState = 'active' | 'suspended' | 'archived' | 'deleted'
+
+export type AccountStateResponse = {
+    account_state: AccountState
+    [claim: string]: unknown
+}
+
+// audit returns the claims the RP holds for the account
+export type AuditResponse = AccountStateResponse & {
+    sub: string
+    email?: string
+    email_verified?: boolean
+    name?: string
+    given_name?: string
+    family_name?: string
+    groups?: string[]
+    roles?: string[]
+}
+
+export type TenantCommandResponse = {
+    [key: string]: unknown
+}
+
+// one page of the tenant's accounts -- while there are more, the cursor is
+// sent back as the cursor claim of the next audit_tenant command
+export type AuditTenantResponse = {
+    accounts: AuditResponse[]
+    cursor?: string
+}
+
+// source of account data for the built-in audit and audit_tenant responders
+export interface AccountProvider {
+    // the account for sub in the tenant, undefined if there is none
+    getAccount: (query: {
+        iss: string
+        tenant: string
+        sub: string
+    }) => Promise<AuditResponse | undefined>
+    // a page of the accounts in the tenant -- return a cursor while
+    // there are more pages, it is passed back to fetch the next one
+    listAccounts: (query: {
+        iss: string
+        tenant: string
+        cursor?: string
+    }) => Promise<{ accounts: AuditResponse[]; cursor?: string }>
+}
+
+// response body for each command a handler can be registered for
+export interface CommandResponses {
+    activate: AccountStateResponse
+    maintain: AccountStateResponse
+    suspend: AccountStateResponse
+    reactivate: AccountStateResponse
+    archive: AccountStateResponse
+    restore: AccountStateResponse
+    delete: AccountStateResponse
+    audit: AuditResponse
+    invalidate: AccountStateResponse
+    migrate: AccountStateResponse
+    audit_tenant: AuditTenantResponse
+    suspend_tenant: TenantCommandResponse
+    archive_tenant: TenantCommandResponse
+    delete_tenant: TenantCommandResponse
+    invalidate_tenant: TenantCommandResponse
+}
+
+export type CommandErrorResponse = {
+    error: string
+    error_description?: string
+}
+
+export type CommandClaimsFor<C extends keyof CommandResponses> =
+    C extends AccountCommand
+        ? AccountCommandClaims<C>
+        : C extends TenantCommand
+          ? TenantCommandClaims<C>
+          : never
+
+// handlers return the response body, or an error that is sent as a 400
+export type CommandHandlers = {
+    [C in keyof CommandResponses]?: (
+        claims: CommandClaimsFor<C>,
+    ) =>
+        | CommandResponses[C]
+        | CommandErrorResponse
+        | Promise<CommandResponses[C] | CommandErrorResponse>
+}
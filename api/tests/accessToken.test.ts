@@ -0,0 +1,105 @@
+// Tests for mobile Bearer tokens
+// mints tokens with createTokens and authenticates mock requests with them
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import config, { configure } from '../src/lib/config.js'
+import { getAuthfromCookies } from '../src/lib/auth.js'
+import {
+    createTokens,
+    revokeToken,
+    tokenSecret,
+} from '../src/lib/accessToken.js'
+import router from '../src/handlers/router.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const NOW = Math.floor(Date.now() / 1000)
+
+const AUTH: Auth = {
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: NOW,
+    email: 'user@example.com',
+}
+
+configure({ client_id: 'test-client-id' })
+
+const bearerReq = (token: string) =>
+    mockReq({ headers: { authorization: `Bearer ${token}` } })
+
+const refresh = async (refresh_token: string) => {
+    const req = mockReq({
+        method: 'POST',
+        query: { op: 'refresh' },
+        body: { refresh_token },
+    })
+    const { res, captured } = mockRes()
+    await router(req, res)
+    return captured
+}
+
+test('Bearer access_token authenticates the request', async () => {
+    const { access_token, token_type, expires_in } = await createTokens(AUTH)
+    assert.strictEqual(token_type, 'Bearer')
+    assert.strictEqual(expires_in, 3600)
+    const auth = await getAuthfromCookies(bearerReq(access_token))
+    assert.deepStrictEqual(auth, AUTH)
+})
+
+test('expired access_token is not logged in', async () => {
+    const token = await encryptObj(
+        { ...AUTH, exp: NOW - 10, jti: 'expired' },
+        tokenSecret(config.secret as string),
+    )
+    const auth = await getAuthfromCookies(bearerReq(token))
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('refresh_token is not accepted as an access_token', async () => {
+    const { refresh_token } = await createTokens(AUTH)
+    const auth = await getAuthfromCookies(bearerReq(refresh_token))
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('tokens are not accepted as the auth cookie', async () => {
+    const { access_token, refresh_token } = await createTokens(AUTH)
+    const cookieReq = (value: string) =>
+        mockReq({ cookies: { [config.cookies.authName]: value } })
+    for (const token of [access_token, refresh_token]) {
+        const auth = await getAuthfromCookies(cookieReq(token))
+        assert.strictEqual(auth.isLoggedIn, false)
+    }
+    // nor is a token payload encrypted with the cookie secret
+    const forged = await encryptObj(
+        { ...AUTH, exp: NOW + 3600, jti: 'forged' },
+        config.secret as string,
+    )
+    const auth = await getAuthfromCookies(cookieReq(forged))
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('revoked access_token is not logged in', async () => {
+    const { access_token } = await createTokens(AUTH)
+    assert.ok(await revokeToken(access_token))
+    const auth = await getAuthfromCookies(bearerReq(access_token))
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('op=refresh rotates tokens and the refresh_token works only once', async () => {
+    const { refresh_token } = await createTokens(AUTH)
+    const first = await refresh(refresh_token)
+    assert.strictEqual(first.statusCode, 200)
+    assert.ok(first.body.access_token)
+    assert.notStrictEqual(first.body.refresh_token, refresh_token)
+    const auth = await getAuthfromCookies(bearerReq(first.body.access_token))
+    assert.deepStrictEqual(auth, AUTH)
+
+    const replayed = await refresh(refresh_token)
+    assert.strictEqual(replayed.statusCode, 400)
+    assert.strictEqual(replayed.body.error, 'invalid_grant')
+})
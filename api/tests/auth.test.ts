@@ -0,0 +1,247 @@
+// Tests for the auth cookie
+// drives saveAuthCookie / getAuthfromCookies with mock requests and
+// responses, with and without a server-side session store
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Auth } from '@hellocoop/definitions'
+import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+
+import config, { configure } from '../src/lib/config.js'
+import {
+    saveAuthCookie,
+    getAuthfromCookies,
+    destroyAuthSession,
+    updateAuthCookie,
+} from '../src/lib/auth.js'
+import { createMemorySessionStore } from '../src/lib/sessionStore.js'
+import { createTokens } from '../src/lib/accessToken.js'
+import { updateAuth, AuthUpdates } from '../src/handlers/auth.js'
+import { Config } from '../src/types.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const AUTH_COOKIE = 'hellocoop_auth'
+
+const IAT = Math.floor(Date.now() / 1000)
+
+const AUTH: Auth = {
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: IAT,
+    name: 'Test User',
+    email: 'user@example.com',
+}
+
+// a request with the auth cookie
+const authReq = (cookie: string) =>
+    mockReq({ cookies: { [AUTH_COOKIE]: cookie } })
+
+const setup = (config: Config = {}) => {
+    configure({ client_id: CLIENT_ID, ...config })
+}
+
+// save AUTH and return the auth cookie value that was set
+const login = async (auth: Auth = AUTH): Promise<string> => {
+    const { res, captured } = mockRes()
+    assert.ok(await saveAuthCookie(res, auth))
+    const cookie = captured.cookies.find((c) => c.name === AUTH_COOKIE)
+    assert.ok(cookie)
+    return cookie.value
+}
+
+test('without a session store the cookie carries the encrypted Auth', async () => {
+    setup()
+    const cookie = await login()
+    assert.ok(!cookie.includes('user@example.com'))
+    const auth = await getAuthfromCookies(authReq(cookie))
+    assert.deepStrictEqual(auth, AUTH)
+})
+
+test('cookie encrypted with a previous secret is accepted and re-encrypted', async () => {
+    setup()
+    const previousSecret = config.secret as string
+    const currentSecret =
+        'a4d3c1b2e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90'
+    const oldCookie = await encryptObj(AUTH, previousSecret)
+    config.secret = currentSecret
+    config.secrets = [currentSecret, previousSecret]
+    try {
+        const { res, captured } = mockRes()
+        const auth = await getAuthfromCookies(authReq(oldCookie), res)
+        assert.deepStrictEqual(auth, AUTH)
+        const reissued = captured.cookies.find((c) => c.name === AUTH_COOKIE)
+        assert.ok(reissued)
+        assert.deepStrictEqual(
+            await decryptObj(reissued.value, currentSecret),
+            AUTH,
+        )
+    } finally {
+        config.secret = previousSecret
+        config.secrets = [previousSecret]
+    }
+})
+
+test('cookie encrypted with the current secret is not re-issued', async () => {
+    setup()
+    const cookie = await login()
+    const { res, captured } = mockRes()
+    await getAuthfromCookies(authReq(cookie), res)
+    assert.strictEqual(captured.cookies.length, 0)
+})
+
+test('with a session store the cookie carries only a session id', async () => {
+    const sessionStore = createMemorySessionStore()
+    setup({ sessionStore })
+    const sid = await login()
+    assert.match(sid, /^[A-Za-z0-9_-]{43}$/)
+    assert.deepStrictEqual(await sessionStore.get(sid), AUTH)
+    const auth = await getAuthfromCookies(authReq(sid))
+    assert.deepStrictEqual(auth, AUTH)
+})
+
+test('each login gets a new session id', async () => {
+    setup({ sessionStore: createMemorySessionStore() })
+    assert.notStrictEqual(await login(), await login())
+})
+
+test('destroyed session is not logged in and the cookie is cleared', async () => {
+    setup({ sessionStore: createMemorySessionStore() })
+    const sid = await login()
+    await destroyAuthSession(authReq(sid))
+    const { res, captured } = mockRes()
+    const auth = await getAuthfromCookies(authReq(sid), res)
+    assert.strictEqual(auth.isLoggedIn, false)
+    const cleared = captured.cookies.find((c) => c.name === AUTH_COOKIE)
+    assert.ok(cleared)
+    assert.strictEqual(cleared.value, '')
+})
+
+test('updating a session keeps its session id', async () => {
+    const sessionStore = createMemorySessionStore()
+    setup({ sessionStore })
+    const sid = await login()
+    const { res, captured } = mockRes()
+    const updated = { ...AUTH, role: 'admin' }
+    assert.ok(await updateAuthCookie(authReq(sid), res, updated))
+    assert.strictEqual(captured.cookies[0].value, sid)
+    assert.deepStrictEqual(await sessionStore.get(sid), updated)
+})
+
+test('updateAuth changes only the profile claims', async () => {
+    setup()
+    const session: Auth = { ...AUTH, sid: 'op-session', auth_time: IAT }
+    const cookie = await login(session)
+    const { res, captured } = mockRes()
+    // as a JavaScript caller could pass them
+    const updates = {
+        name: 'New Name',
+        picture: 'https://example.com/new.png',
+        email: 'other@example.com',
+        sid: 'other-session',
+        auth_time: IAT + 60,
+        isLoggedIn: true,
+        lastActive: IAT + 60,
+    } as AuthUpdates
+    const expected = {
+        ...session,
+        name: 'New Name',
+        picture: 'https://example.com/new.png',
+    }
+    assert.deepStrictEqual(
+        await updateAuth(authReq(cookie), res, updates),
+        expected,
+    )
+    const saved = await decryptObj(
+        captured.cookies[0].value,
+        config.secret as string,
+    )
+    assert.deepStrictEqual(saved, expected)
+})
+
+test('updateAuth does not turn a Bearer token into a cookie', async () => {
+    setup()
+    const { access_token } = await createTokens(AUTH)
+    const req = mockReq({
+        headers: { authorization: `Bearer ${access_token}` },
+    })
+    const { res, captured } = mockRes()
+    assert.strictEqual(await updateAuth(req, res, { name: 'New Name' }), null)
+    assert.strictEqual(captured.cookies.length, 0)
+})
+
+test('memory store returns copies of the stored Auth', async () => {
+    const sessionStore = createMemorySessionStore()
+    await sessionStore.set('sid', AUTH)
+    const auth = (await sessionStore.get('sid')) as any
+    auth.name = 'Changed'
+    assert.strictEqual(((await sessionStore.get('sid')) as any).name, AUTH.name)
+})
+
+test('session lifetime sets the cookie maxAge', async () => {
+    setup({ sessionMaxAge: 3600, sessionIdleTimeout: 600 })
+    const { res, captured } = mockRes()
+    assert.ok(await saveAuthCookie(res, AUTH))
+    const maxAge = captured.cookies[0].options.maxAge
+    assert.ok(maxAge > 590 && maxAge <= 600, `maxAge ${maxAge}`)
+})
+
+test('session past its absolute lifetime is not logged in and the cookie is cleared', async () => {
+    setup({ sessionMaxAge: 3600 })
+    const cookie = await encryptObj(
+        { ...AUTH, iat: IAT - 7200 },
+        config.secret as string,
+    )
+    const { res, captured } = mockRes()
+    const auth = await getAuthfromCookies(authReq(cookie), res)
+    assert.strictEqual(auth.isLoggedIn, false)
+    assert.strictEqual(captured.cookies[0].value, '')
+})
+
+test('idle session is not logged in and is removed from the session store', async () => {
+    const sessionStore = createMemorySessionStore()
+    setup({ sessionStore, sessionIdleTimeout: 600 })
+    const iat = Math.floor(Date.now() / 1000) - 3600
+    await sessionStore.set('idle-sid', {
+        ...AUTH,
+        iat,
+        lastActive: iat + 60,
+    } as Auth)
+    const auth = await getAuthfromCookies(authReq('idle-sid'))
+    assert.strictEqual(auth.isLoggedIn, false)
+    assert.strictEqual(await sessionStore.get('idle-sid'), undefined)
+})
+
+test('active session is renewed under sliding renewal', async () => {
+    setup({ sessionIdleTimeout: 600 })
+    const iat = Math.floor(Date.now() / 1000) - 300
+    const cookie = await encryptObj(
+        { ...AUTH, iat, lastActive: iat },
+        config.secret as string,
+    )
+    const { res, captured } = mockRes()
+    const auth = await getAuthfromCookies(authReq(cookie), res)
+    assert.strictEqual(auth.isLoggedIn, true)
+    assert.strictEqual(captured.cookies.length, 1)
+    const renewed = (await decryptObj(
+        captured.cookies[0].value,
+        config.secret as string,
+    )) as any
+    assert.ok(renewed.lastActive > iat)
+    assert.ok(captured.cookies[0].options.maxAge > 590)
+})
+
+test('session is not renewed when sessionRolling is false', async () => {
+    setup({ sessionIdleTimeout: 600, sessionRolling: false })
+    const iat = Math.floor(Date.now() / 1000) - 300
+    const cookie = await encryptObj(
+        { ...AUTH, iat, lastActive: iat },
+        config.secret as string,
+    )
+    const { res, captured } = mockRes()
+    const auth = await getAuthfromCookies(authReq(cookie), res)
+    assert.strictEqual(auth.isLoggedIn, true)
+    assert.strictEqual(captured.cookies.length, 0)
+})
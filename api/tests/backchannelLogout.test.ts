@@ -0,0 +1,235 @@
+// Tests for OpenID Connect Back-Channel Logout
+// mints logout tokens at a local issuer, and drives
+// handleBackchannelLogout directly
+
+import './setup.js'
+
+import { test, before, after } from 'node:test'
+import assert from 'node:assert'
+import { KeyLike } from 'jose'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import config, { configure } from '../src/lib/config.js'
+import handleBackchannelLogout from '../src/handlers/backchannelLogout.js'
+import { getAuthfromCookies } from '../src/lib/auth.js'
+import { createTokens, getAuthfromBearer } from '../src/lib/accessToken.js'
+import { createMemorySessionStore } from '../src/lib/sessionStore.js'
+import { Config, LogoutSyncParams, SessionStore } from '../src/types.js'
+import { TestIssuer, mockReq, mockRes, startIssuer } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const BACKCHANNEL_LOGOUT_EVENT =
+    'http://schemas.openid.net/event/backchannel-logout'
+
+let testIssuer: TestIssuer
+let issuer: string
+let jti = 0
+
+before(async () => {
+    testIssuer = await startIssuer()
+    issuer = testIssuer.issuer
+})
+
+after(() => {
+    testIssuer.close()
+})
+
+type MintOptions = {
+    key?: KeyLike
+    claims?: Record<string, unknown>
+    omit?: string[]
+}
+
+const mintToken = async (options: MintOptions = {}) => {
+    const now = Math.floor(Date.now() / 1000)
+    const payload: Record<string, unknown> = {
+        iss: issuer,
+        aud: CLIENT_ID,
+        iat: now,
+        exp: now + 120,
+        jti: `jti-${++jti}`,
+        sub: 'user-1',
+        events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+        ...options.claims,
+    }
+    for (const claim of options.omit || []) delete payload[claim]
+    return testIssuer.sign(payload, { typ: 'logout+jwt', key: options.key })
+}
+
+const session = (sub: string, sid?: string): Auth => ({
+    isLoggedIn: true,
+    sub,
+    iat: Math.floor(Date.now() / 1000),
+    ...(sid && { sid }),
+})
+
+// a null sessionStore runs the logout for cookie-only sessions
+const runLogout = async (
+    logout_token: string,
+    sessionStore: SessionStore | null = createMemorySessionStore(),
+    options: Config = {},
+) => {
+    configure({
+        client_id: CLIENT_ID,
+        sessionStore: sessionStore || undefined,
+        logoutSync: async () => null,
+        ...options,
+    })
+    config.helloIssuer = issuer
+    let logoutSync: LogoutSyncParams | undefined
+    const req = mockReq({
+        method: 'POST',
+        logoutSyncWrapper: async (_: unknown, params: LogoutSyncParams) => {
+            logoutSync = params
+            return null
+        },
+    })
+    const { res, captured } = mockRes()
+    await handleBackchannelLogout(req, res, { logout_token })
+    return { ...captured, logoutSync }
+}
+
+test('logout token for a sub ends every session for the sub', async () => {
+    const store = createMemorySessionStore()
+    await store.set('a', session('user-1'))
+    await store.set('b', session('user-1'))
+    await store.set('c', session('user-2'))
+    const captured = await runLogout(await mintToken(), store)
+    assert.strictEqual(captured.statusCode, 200)
+    assert.strictEqual(await store.get('a'), undefined)
+    assert.strictEqual(await store.get('b'), undefined)
+    assert.ok(await store.get('c'))
+    assert.deepStrictEqual(captured.logoutSync, {
+        sub: 'user-1',
+        sid: undefined,
+    })
+})
+
+test('logout token with a sid ends only that OP session', async () => {
+    const store = createMemorySessionStore()
+    await store.set('a', session('user-1', 'op-session-1'))
+    await store.set('b', session('user-1', 'op-session-2'))
+    const captured = await runLogout(
+        await mintToken({
+            claims: { sid: 'op-session-1' },
+            omit: ['sub'],
+        }),
+        store,
+    )
+    assert.strictEqual(captured.statusCode, 200)
+    assert.strictEqual(await store.get('a'), undefined)
+    assert.ok(await store.get('b'))
+})
+
+test('rejects logout token with bad signature', async () => {
+    const captured = await runLogout(
+        await mintToken({ key: testIssuer.wrongKey }),
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'invalid_request')
+    assert.strictEqual(captured.logoutSync, undefined)
+})
+
+test('logout tokens are verified with the provider ID token algs', async () => {
+    const withAlgs = (algs: string[]) => ({
+        provider: { issuer, id_token_signing_alg_values_supported: algs },
+    })
+    const token = await mintToken()
+    let captured = await runLogout(token, null, withAlgs(['ES256']))
+    assert.strictEqual(captured.statusCode, 400)
+    captured = await runLogout(token, null, withAlgs(['RS256']))
+    assert.strictEqual(captured.statusCode, 200)
+})
+
+test('rejects logout token without the back-channel logout event', async () => {
+    const captured = await runLogout(
+        await mintToken({ claims: { events: {} } }),
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(
+        captured.body.error_description,
+        'missing back-channel logout event',
+    )
+})
+
+test('rejects logout token with a nonce', async () => {
+    const captured = await runLogout(
+        await mintToken({ claims: { nonce: 'n' } }),
+    )
+    assert.strictEqual(captured.statusCode, 400)
+})
+
+test('rejects logout token without sub or sid', async () => {
+    const captured = await runLogout(await mintToken({ omit: ['sub'] }))
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(
+        captured.body.error_description,
+        'missing sub and sid claims',
+    )
+})
+
+test('rejects a replayed logout token', async () => {
+    const token = await mintToken()
+    assert.strictEqual((await runLogout(token)).statusCode, 200)
+    const captured = await runLogout(token)
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(
+        captured.body.error_description,
+        'logout token has already been used',
+    )
+})
+
+test('without destroyMatching, sessions from before the logout are rejected', async () => {
+    const cookieAuth = async (auth: Auth) => {
+        const cookie = await encryptObj(auth, config.secret as string)
+        return getAuthfromCookies(
+            mockReq({ cookies: { [config.cookies.authName]: cookie } }),
+        )
+    }
+    const now = Math.floor(Date.now() / 1000)
+    const bySub = { ...session('user-3'), iat: now - 60 }
+    const bySid = { ...session('user-4', 'op-session-4'), iat: now - 60 }
+    configure({ client_id: CLIENT_ID })
+    assert.ok((await cookieAuth(bySub)).isLoggedIn)
+
+    let captured = await runLogout(
+        await mintToken({ claims: { sub: 'user-3' } }),
+        null,
+    )
+    assert.strictEqual(captured.statusCode, 200)
+    captured = await runLogout(
+        await mintToken({ claims: { sid: 'op-session-4' }, omit: ['sub'] }),
+        null,
+    )
+    assert.strictEqual(captured.statusCode, 200)
+
+    assert.strictEqual((await cookieAuth(bySub)).isLoggedIn, false)
+    assert.strictEqual((await cookieAuth(bySid)).isLoggedIn, false)
+    // a login after the logout is a new session -- the logout may have been
+    // recorded in the second after now
+    const later = {
+        ...session('user-3'),
+        iat: Math.floor(Date.now() / 1000) + 1,
+    }
+    assert.ok((await cookieAuth(later)).isLoggedIn)
+})
+
+test('Bearer tokens from before the logout are rejected with destroyMatching', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    configure({ client_id: CLIENT_ID })
+    const { access_token } = await createTokens({
+        isLoggedIn: true,
+        sub: 'user-5',
+        iat: now - 60,
+    })
+    assert.ok((await getAuthfromBearer(access_token)).isLoggedIn)
+    const captured = await runLogout(
+        await mintToken({ claims: { sub: 'user-5' } }),
+    )
+    assert.strictEqual(captured.statusCode, 200)
+    assert.strictEqual(
+        (await getAuthfromBearer(access_token)).isLoggedIn,
+        false,
+    )
+})
@@ -1,63 +1,58 @@
 // Tests for the OPC draft-02 command handler
-// spins up a local issuer that serves openid-configuration + JWKS,
-// mints command+jwt tokens, and drives handleCommand directly
+// mints command+jwt tokens at a local issuer, and drives handleCommand
+// directly
 
 import './setup.js'
 
 import { test, before, after } from 'node:test'
 import assert from 'node:assert'
-import http from 'node:http'
-import { AddressInfo } from 'node:net'
-import { generateKeyPair, exportJWK, SignJWT, JWK, KeyLike } from 'jose'
+import { KeyLike } from 'jose'
 
-import { configure } from '../src/lib/config.js'
-import handleCommand, { commandIssuers } from '../src/handlers/command.js'
+import config, { configure } from '../src/lib/config.js'
+import handleCommand from '../src/handlers/command.js'
 import {
-    HelloRequest,
-    HelloResponse,
     CommandClaims,
+    CommandJob,
     Config,
+    AccountProvider,
+    AuditResponse,
 } from '../src/types.js'
+import { TestIssuer, mockReq, mockRes, startIssuer } from './helpers.js'
 
 const CLIENT_ID = 'test-client-id'
 const COMMAND_ENDPOINT = 'https://rp.example.com/api/hellocoop'
 
+let testIssuer: TestIssuer
 let issuer: string
-let server: http.Server
-let privateKey: KeyLike
-let wrongPrivateKey: KeyLike
 let jti = 0
+let onCallback: ((result: any) => void) | undefined
 
-before(async () => {
-    const keyPair = await generateKeyPair('RS256')
-    privateKey = keyPair.privateKey
-    const wrongKeyPair = await generateKeyPair('RS256')
-    wrongPrivateKey = wrongKeyPair.privateKey
-    const publicJwk: JWK = await exportJWK(keyPair.publicKey)
-    publicJwk.kid = 'test-key'
-    publicJwk.alg = 'RS256'
-    publicJwk.use = 'sig'
-
-    server = http.createServer((req, res) => {
-        if (req.url === '/.well-known/openid-configuration') {
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ issuer, jwks_uri: issuer + '/jwks' }))
-        } else if (req.url === '/jwks') {
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ keys: [publicJwk] }))
-        } else {
-            res.statusCode = 404
-            res.end()
+// resolves with the next async command result POSTed to the issuer
+const nextCallback = () =>
+    new Promise<any>((resolve) => {
+        onCallback = (result) => {
+            onCallback = undefined
+            resolve(result)
         }
     })
-    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
-    const { port } = server.address() as AddressInfo
-    issuer = `http://127.0.0.1:${port}`
-    commandIssuers[issuer] = { issuer }
+
+before(async () => {
+    testIssuer = await startIssuer({
+        metadata: (issuer) => ({
+            command_callback_endpoint: issuer + '/command_callback',
+        }),
+        routes: {
+            '/command_callback': (_, res, body) => {
+                res.end()
+                onCallback?.(JSON.parse(body))
+            },
+        },
+    })
+    issuer = testIssuer.issuer
 })
 
 after(() => {
-    server.close()
+    testIssuer.close()
 })
 
 type MintOptions = {
@@ -84,66 +79,29 @@ const mintToken = async (options: MintOptions = {}) => {
         ...options.claims,
     }
     for (const claim of options.omit || []) delete payload[claim]
-    return new SignJWT(payload)
-        .setProtectedHeader({
-            alg: 'RS256',
-            kid: 'test-key',
-            typ: options.typ ?? 'command+jwt',
-        })
-        .sign(options.key ?? privateKey)
-}
-
-const mockReq = () =>
-    ({
-        headers: () => ({ host: 'rp.example.com' }),
-        method: 'POST',
-        path: '/api/hellocoop',
-        query: {},
-    }) as unknown as HelloRequest
-
-type CapturedResponse = {
-    statusCode: number
-    body: any
-    headers: Record<string, string | string[]>
-}
-
-const mockRes = (): { res: HelloResponse; captured: CapturedResponse } => {
-    const captured: CapturedResponse = {
-        statusCode: 200,
-        body: undefined,
-        headers: {},
-    }
-    const res = {
-        setHeader: (name: string, value: string | string[]) => {
-            captured.headers[name.toLowerCase()] = value
-        },
-        status: (statusCode: number) => {
-            captured.statusCode = statusCode
-            return {
-                send: (data: any) => {
-                    captured.body = data
-                },
-            }
-        },
-        json: (data: any) => {
-            captured.body = data
-        },
-        send: (data: any) => {
-            captured.body = data
-        },
-    } as unknown as HelloResponse
-    return { res, captured }
+    return testIssuer.sign(payload, {
+        typ: options.typ ?? 'command+jwt',
+        key: options.key,
+    })
 }
 
 const runCommand = async (
     command_token: string | undefined,
-    config: Config = {},
+    options: Config = {},
 ) => {
-    configure({ client_id: CLIENT_ID, ...config })
+    configure({
+        client_id: CLIENT_ID,
+        commandIssuers: [{ issuer }],
+        ...options,
+    })
     const { res, captured } = mockRes()
     const params: { [key: string]: string } = {}
     if (command_token) params.command_token = command_token
-    await handleCommand(mockReq(), res, params)
+    await handleCommand(
+        mockReq({ method: 'POST', headers: { host: 'rp.example.com' } }),
+        res,
+        params,
+    )
     return captured
 }
 
@@ -189,7 +147,9 @@ test('rejects token with wrong typ header', async () => {
 })
 
 test('rejects token with bad signature', async () => {
-    const captured = await runCommand(await mintToken({ key: wrongPrivateKey }))
+    const captured = await runCommand(
+        await mintToken({ key: testIssuer.wrongKey }),
+    )
     assert.strictEqual(captured.statusCode, 400)
     assert.strictEqual(captured.body.error, 'invalid_request')
 })
@@ -310,3 +270,286 @@ test('metadata is handled built-in even when a commandHandler is registered', as
     ])
     assert.strictEqual(captured.body.command_endpoint, COMMAND_ENDPOINT)
 })
+
+test('rejects a replayed command token', async () => {
+    const command_token = await mintToken()
+    const first = await runCommand(command_token)
+    assert.strictEqual(first.statusCode, 200)
+    const replayed = await runCommand(command_token)
+    assert.strictEqual(replayed.statusCode, 400)
+    assert.strictEqual(replayed.body.error, 'invalid_request')
+})
+
+test('replay check uses the configured commandReplayCache', async () => {
+    const keys: string[] = []
+    const captured = await runCommand(await mintToken(), {
+        commandReplayCache: {
+            add: async (key) => {
+                keys.push(key)
+                return false
+            },
+        },
+    })
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'invalid_request')
+    assert.deepStrictEqual(keys, [`${issuer} jti-${jti}`])
+})
+
+test('commands registry dispatches to the handler for the command', async () => {
+    let received: CommandClaims | undefined
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'suspend', sub: 'user-123' } }),
+        {
+            commands: {
+                suspend: (claims) => {
+                    received = claims
+                    return { account_state: 'suspended' }
+                },
+            },
+        },
+    )
+    assert.strictEqual(captured.statusCode, 200)
+    assert.strictEqual(received?.sub, 'user-123')
+    assert.deepStrictEqual(captured.body, { account_state: 'suspended' })
+})
+
+test('metadata commands_supported is derived from the commands registry', async () => {
+    const captured = await runCommand(await mintToken(), {
+        commands: {
+            suspend: () => ({ account_state: 'suspended' }),
+            delete: () => ({ account_state: 'deleted' }),
+        },
+    })
+    assert.deepStrictEqual(captured.body.commands_supported, [
+        'metadata',
+        'suspend',
+        'delete',
+    ])
+})
+
+test('command missing from the commands registry returns unsupported_command', async () => {
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'delete', sub: 'user-123' } }),
+        { commands: { suspend: () => ({ account_state: 'suspended' }) } },
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'unsupported_command')
+})
+
+test('commands registry handler error is returned as a 400', async () => {
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'suspend', sub: 'user-123' } }),
+        { commands: { suspend: () => ({ error: 'unknown_account' }) } },
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'unknown_account')
+})
+
+test('account command without sub is rejected before the handler', async () => {
+    let called = false
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'suspend' } }),
+        {
+            commands: {
+                suspend: () => {
+                    called = true
+                    return { account_state: 'suspended' }
+                },
+            },
+        },
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'invalid_request')
+    assert.strictEqual(called, false)
+})
+
+test('async command is accepted with a job_id and its result is POSTed to the OP', async () => {
+    const callback = nextCallback()
+    const captured = await runCommand(
+        await mintToken({
+            claims: { command: 'suspend_async', sub: 'user-123' },
+        }),
+        {
+            asyncCommands: true,
+            commands: { suspend: () => ({ account_state: 'suspended' }) },
+        },
+    )
+    assert.strictEqual(captured.statusCode, 202)
+    assert.ok(captured.body.job_id)
+    const result = await callback
+    assert.strictEqual(result.job_id, captured.body.job_id)
+    assert.strictEqual(result.command, 'suspend_async')
+    assert.strictEqual(result.sub, 'user-123')
+    assert.strictEqual(result.account_state, 'suspended')
+})
+
+test('async command is enqueued on the configured commandQueue', async () => {
+    const jobs: CommandJob[] = []
+    const captured = await runCommand(
+        await mintToken({
+            claims: { command: 'delete_async', sub: 'user-123' },
+        }),
+        {
+            asyncCommands: true,
+            commandQueue: { enqueue: async (job) => void jobs.push(job) },
+            commands: { delete: () => ({ account_state: 'deleted' }) },
+        },
+    )
+    assert.strictEqual(captured.statusCode, 202)
+    assert.strictEqual(jobs.length, 1)
+    assert.strictEqual(jobs[0].job_id, captured.body.job_id)
+    assert.strictEqual(jobs[0].claims.command, 'delete_async')
+})
+
+test('async command is unsupported unless asyncCommands is enabled', async () => {
+    const captured = await runCommand(
+        await mintToken({
+            claims: { command: 'suspend_async', sub: 'user-123' },
+        }),
+        { commands: { suspend: () => ({ account_state: 'suspended' }) } },
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'unsupported_command')
+})
+
+test('metadata advertises async variants of registered account commands', async () => {
+    const captured = await runCommand(await mintToken(), {
+        asyncCommands: true,
+        commands: {
+            suspend: () => ({ account_state: 'suspended' }),
+            audit_tenant: () => ({ accounts: [] }),
+        },
+    })
+    assert.deepStrictEqual(captured.body.commands_supported, [
+        'metadata',
+        'suspend',
+        'audit_tenant',
+        'suspend_async',
+    ])
+})
+
+test('issuer with static jwks is verified without fetching keys', async () => {
+    const staticIssuer = 'https://op.example.net'
+    const captured = await runCommand(await mintToken({ iss: staticIssuer }), {
+        commandIssuers: [
+            { issuer: staticIssuer, jwks: { keys: [testIssuer.publicJwk] } },
+        ],
+    })
+    assert.strictEqual(captured.statusCode, 200)
+    assert.strictEqual(captured.body.context.iss, staticIssuer)
+})
+
+test('mock command issuers are only accepted outside production', async () => {
+    configure({ client_id: CLIENT_ID })
+    assert.ok(config.commandIssuers['http://mockin:3333'])
+    assert.ok(config.commandIssuers['https://issuer.hello.coop'])
+    config.production = true
+    try {
+        configure({ client_id: CLIENT_ID })
+        assert.ok(!config.commandIssuers['http://mockin:3333'])
+        assert.ok(!config.commandIssuers['http://127.0.0.1:3333'])
+        assert.ok(config.commandIssuers['https://issuer.hello.coop'])
+    } finally {
+        config.production = false
+    }
+})
+
+test('HELLO_COMMAND_ISSUERS adds command issuers', async () => {
+    process.env.HELLO_COMMAND_ISSUERS =
+        'https://staging.example.net, https://op.example.org'
+    try {
+        configure({ client_id: CLIENT_ID })
+        assert.deepStrictEqual(
+            config.commandIssuers['https://staging.example.net'],
+            { issuer: 'https://staging.example.net' },
+        )
+        assert.ok(config.commandIssuers['https://op.example.org'])
+    } finally {
+        delete process.env.HELLO_COMMAND_ISSUERS
+    }
+})
+
+const ACCOUNTS: AuditResponse[] = [
+    { sub: 'user-1', account_state: 'active', email: 'one@example.com' },
+    { sub: 'user-2', account_state: 'suspended', name: undefined },
+    { sub: 'user-3', account_state: 'active', roles: ['admin'] },
+]
+
+// serves ACCOUNTS two per page
+const accountProvider: AccountProvider = {
+    getAccount: async ({ sub }) => ACCOUNTS.find((a) => a.sub === sub),
+    listAccounts: async ({ cursor }) => {
+        const start = Number(cursor || 0)
+        const end = start + 2
+        return {
+            accounts: ACCOUNTS.slice(start, end),
+            cursor: end < ACCOUNTS.length ? String(end) : undefined,
+        }
+    },
+}
+
+test('accountProvider answers audit with the account', async () => {
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'audit', sub: 'user-1' } }),
+        { accountProvider },
+    )
+    assert.strictEqual(captured.statusCode, 200)
+    assert.deepStrictEqual(captured.body, ACCOUNTS[0])
+})
+
+test('audit of an unknown account returns unknown_account', async () => {
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'audit', sub: 'nobody' } }),
+        { accountProvider },
+    )
+    assert.strictEqual(captured.statusCode, 400)
+    assert.strictEqual(captured.body.error, 'unknown_account')
+})
+
+test('audit_tenant returns a page of accounts and a cursor for the next', async () => {
+    const first = await runCommand(
+        await mintToken({ claims: { command: 'audit_tenant' } }),
+        { accountProvider },
+    )
+    assert.strictEqual(first.statusCode, 200)
+    assert.deepStrictEqual(
+        first.body.accounts.map((a: AuditResponse) => a.sub),
+        ['user-1', 'user-2'],
+    )
+    assert.ok(!('name' in first.body.accounts[1]))
+    assert.strictEqual(first.body.cursor, '2')
+
+    const last = await runCommand(
+        await mintToken({
+            claims: { command: 'audit_tenant', cursor: first.body.cursor },
+        }),
+        { accountProvider },
+    )
+    assert.deepStrictEqual(
+        last.body.accounts.map((a: AuditResponse) => a.sub),
+        ['user-3'],
+    )
+    assert.ok(!('cursor' in last.body))
+})
+
+test('accountProvider adds audit and audit_tenant to commands_supported', async () => {
+    const captured = await runCommand(await mintToken(), { accountProvider })
+    assert.deepStrictEqual(captured.body.commands_supported, [
+        'metadata',
+        'audit',
+        'audit_tenant',
+    ])
+})
+
+test('registered audit handler takes precedence over the accountProvider', async () => {
+    const captured = await runCommand(
+        await mintToken({ claims: { command: 'audit', sub: 'user-1' } }),
+        {
+            accountProvider,
+            commands: {
+                audit: ({ sub }) => ({ sub, account_state: 'archived' }),
+            },
+        },
+    )
+    assert.strictEqual(captured.body.account_state, 'archived')
+})
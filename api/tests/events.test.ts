@@ -0,0 +1,88 @@
+// Tests for auth events
+// collects the events passed to onEvent while driving the router and
+// getAuthfromCookies with mock requests
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+
+import { configure } from '../src/lib/config.js'
+import { createJSONLinesSink, emitEvent } from '../src/lib/events.js'
+import { getAuthfromCookies } from '../src/lib/auth.js'
+import router from '../src/handlers/router.js'
+import { AuthEvent } from '../src/types.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+
+const setup = () => {
+    const events: AuthEvent[] = []
+    configure({ client_id: CLIENT_ID, onEvent: (e) => void events.push(e) })
+    return events
+}
+
+// the headers events take the client's IP address and user agent from
+const CLIENT_HEADERS = {
+    'user-agent': 'test-agent',
+    'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+}
+
+test('events carry request metadata', () => {
+    const events = setup()
+    emitEvent('logout', mockReq({ headers: CLIENT_HEADERS }), {
+        sub: 'user-123',
+    })
+    assert.strictEqual(events.length, 1)
+    const [event] = events
+    assert.strictEqual(event.type, 'logout')
+    assert.strictEqual(event.sub, 'user-123')
+    assert.ok(!isNaN(Date.parse(event.time)))
+    assert.deepStrictEqual(event.request, {
+        method: 'GET',
+        path: '/api/hellocoop',
+        ip: '203.0.113.7',
+        user_agent: 'test-agent',
+    })
+})
+
+test('a failing onEvent does not fail the request', async () => {
+    configure({
+        client_id: CLIENT_ID,
+        onEvent: async () => {
+            throw new Error('sink down')
+        },
+    })
+    assert.doesNotThrow(() => emitEvent('logout', mockReq()))
+})
+
+test('authorization error is a login_failed event', async () => {
+    const events = setup()
+    await router(
+        mockReq({ query: { error: 'access_denied', state: 'unknown' } }),
+        mockRes().res,
+    )
+    const failed = events.find((e) => e.type === 'login_failed')
+    assert.ok(failed)
+    assert.strictEqual(failed.error, 'invalid_request')
+    assert.strictEqual(failed.error_description, 'OpenID Connect cookie lost')
+})
+
+test('undecryptable auth cookie is a cookie_decrypt_failed event', async () => {
+    const events = setup()
+    const auth = await getAuthfromCookies(
+        mockReq({ cookies: { hellocoop_auth: 'garbage' } }),
+    )
+    assert.strictEqual(auth.isLoggedIn, false)
+    assert.strictEqual(events[0].type, 'cookie_decrypt_failed')
+    assert.strictEqual(events[0].cookie, 'hellocoop_auth')
+})
+
+test('JSON lines sink writes one event per line', () => {
+    const lines: string[] = []
+    const sink = createJSONLinesSink({ write: (line) => lines.push(line) })
+    sink({ type: 'login_started', time: '2025-01-01T00:00:00.000Z' })
+    assert.deepStrictEqual(lines, [
+        '{"type":"login_started","time":"2025-01-01T00:00:00.000Z"}\n',
+    ])
+})
@@ -0,0 +1,46 @@
+// Tests for the in-memory map behind the createMemory* stores
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+
+import { createExpiringMap } from '../src/lib/expiringMap.js'
+import { createMemorySessionStore } from '../src/lib/sessionStore.js'
+
+const NOW = Math.floor(Date.now() / 1000)
+
+test('entries are gone at their expiry, and kept without one', (t) => {
+    let clock = NOW
+    t.mock.method(Date, 'now', () => clock * 1000)
+    const map = createExpiringMap<string>()
+    map.set('a', 'expires', NOW + 60)
+    map.set('b', 'kept')
+    clock = NOW + 59
+    assert.strictEqual(map.get('a'), 'expires')
+    clock = NOW + 60
+    assert.strictEqual(map.get('a'), undefined)
+    assert.deepStrictEqual([...map.entries()], [['b', 'kept']])
+})
+
+test('add sets an entry only if there is none', (t) => {
+    let clock = NOW
+    t.mock.method(Date, 'now', () => clock * 1000)
+    const map = createExpiringMap<boolean>()
+    assert.ok(map.add('jti', true, NOW + 60))
+    assert.ok(!map.add('jti', true, NOW + 60))
+    // once expired the key can be added again
+    clock = NOW + 60
+    assert.ok(map.add('jti', true, NOW + 120))
+})
+
+test('memory sessions expire after their maxAge', async (t) => {
+    let clock = NOW
+    t.mock.method(Date, 'now', () => clock * 1000)
+    const store = createMemorySessionStore()
+    await store.set('sid', { isLoggedIn: true, sub: 'user-1', iat: NOW }, 600)
+    clock = NOW + 599
+    assert.ok(await store.get('sid'))
+    clock = NOW + 600
+    assert.strictEqual(await store.get('sid'), undefined)
+})
@@ -0,0 +1,150 @@
+// Helpers shared by the tests
+// a local issuer that serves openid-configuration + JWKS and signs tokens
+// with its key, and mock requests and responses that capture what is sent
+
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { generateKeyPair, exportJWK, SignJWT, JWK, KeyLike } from 'jose'
+
+import { HelloRequest, HelloResponse } from '../src/types.js'
+
+type Route = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: string,
+) => void
+
+export type TestIssuer = {
+    issuer: string
+    publicJwk: JWK
+    // a key the issuer does not publish
+    wrongKey: KeyLike
+    // with no typ header unless one is passed
+    sign: (
+        payload: Record<string, unknown>,
+        options?: { typ?: string; key?: KeyLike },
+    ) => Promise<string>
+    close: () => void
+}
+
+// metadata adds to the openid-configuration, and routes serve other paths
+// of the issuer such as a token endpoint
+export const startIssuer = async (
+    options: {
+        metadata?: (issuer: string) => Record<string, unknown>
+        routes?: Record<string, Route>
+    } = {},
+): Promise<TestIssuer> => {
+    const keyPair = await generateKeyPair('RS256')
+    const wrongKeyPair = await generateKeyPair('RS256')
+    const publicJwk = await exportJWK(keyPair.publicKey)
+    publicJwk.kid = 'test-key'
+    publicJwk.alg = 'RS256'
+    publicJwk.use = 'sig'
+
+    let issuer = ''
+    const json = (res: http.ServerResponse, data: unknown) => {
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(data))
+    }
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+            const route = options.routes?.[req.url || '']
+            if (req.url === '/.well-known/openid-configuration')
+                json(res, {
+                    issuer,
+                    jwks_uri: issuer + '/jwks',
+                    ...options.metadata?.(issuer),
+                })
+            else if (req.url === '/jwks') json(res, { keys: [publicJwk] })
+            else if (route) route(req, res, body)
+            else {
+                res.statusCode = 404
+                res.end()
+            }
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    issuer = `http://127.0.0.1:${port}`
+
+    return {
+        issuer,
+        publicJwk,
+        wrongKey: wrongKeyPair.privateKey,
+        sign: (payload, { typ, key = keyPair.privateKey } = {}) =>
+            new SignJWT(payload)
+                .setProtectedHeader({
+                    alg: 'RS256',
+                    kid: 'test-key',
+                    ...(typ && { typ }),
+                })
+                .sign(key),
+        close: () => server.close(),
+    }
+}
+
+// other options, such as query, body and method, replace the defaults
+export const mockReq = ({
+    cookies = {},
+    headers = {},
+    ...options
+}: {
+    cookies?: Record<string, string>
+    headers?: Record<string, string>
+    [member: string]: unknown
+} = {}) =>
+    ({
+        method: 'GET',
+        path: '/api/hellocoop',
+        query: {},
+        headers: () => ({
+            ...(Object.keys(cookies).length && {
+                cookie: Object.entries(cookies)
+                    .map(([name, value]) => `${name}=${value}`)
+                    .join('; '),
+            }),
+            ...headers,
+        }),
+        ...options,
+    }) as unknown as HelloRequest
+
+export type SetCookie = { name: string; value: string; options: any }
+
+// body is what was sent, or the URL of a redirect
+export type Captured = {
+    statusCode: number
+    body: any
+    headers: Record<string, string | string[]>
+    cookies: SetCookie[]
+}
+
+export const mockRes = (): { res: HelloResponse; captured: Captured } => {
+    const captured: Captured = {
+        statusCode: 200,
+        body: undefined,
+        headers: {},
+        cookies: [],
+    }
+    const send = (data: any) => {
+        captured.body = data
+    }
+    const res = {
+        setCookie: (name: string, value: string, options: any) => {
+            captured.cookies.push({ name, value, options })
+        },
+        setHeader: (name: string, value: string | string[]) => {
+            captured.headers[name.toLowerCase()] = value
+        },
+        status: (statusCode: number) => {
+            captured.statusCode = statusCode
+            return { send, json: send }
+        },
+        send,
+        json: send,
+        redirect: send,
+    } as unknown as HelloResponse
+    return { res, captured }
+}
@@ -0,0 +1,142 @@
+// Tests for ID token verification
+// mints ID tokens at a local issuer, and drives verifyIdToken directly
+
+import './setup.js'
+
+import { test, before, after } from 'node:test'
+import assert from 'node:assert'
+import { KeyLike } from 'jose'
+
+import config, { configure } from '../src/lib/config.js'
+import { verifyIdToken } from '../src/lib/idToken.js'
+import { TestIssuer, startIssuer } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const NONCE = 'test-nonce'
+
+let testIssuer: TestIssuer
+let issuer: string
+
+before(async () => {
+    testIssuer = await startIssuer()
+    issuer = testIssuer.issuer
+    configure({ client_id: CLIENT_ID })
+    config.helloIssuer = issuer
+})
+
+after(() => {
+    testIssuer.close()
+})
+
+type MintOptions = {
+    typ?: string
+    key?: KeyLike
+    claims?: Record<string, unknown>
+}
+
+const mintToken = async (options: MintOptions = {}) => {
+    const now = Math.floor(Date.now() / 1000)
+    const payload: Record<string, unknown> = {
+        iss: issuer,
+        aud: CLIENT_ID,
+        sub: 'user-123',
+        nonce: NONCE,
+        iat: now,
+        exp: now + 300,
+        email: 'user@example.com',
+        ...options.claims,
+    }
+    return testIssuer.sign(payload, {
+        typ: options.typ ?? 'JWT',
+        key: options.key,
+    })
+}
+
+test('valid ID token returns verified header and payload', async () => {
+    const result = await verifyIdToken(await mintToken(), NONCE)
+    assert.ok(!('error' in result))
+    assert.strictEqual(result.header.alg, 'RS256')
+    assert.strictEqual(result.payload.sub, 'user-123')
+    assert.strictEqual(result.payload.email, 'user@example.com')
+})
+
+test('nonce is only checked when passed', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ claims: { nonce: 'other' } }),
+    )
+    assert.ok(!('error' in result))
+})
+
+test('rejects ID token with bad signature', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ key: testIssuer.wrongKey }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error, 'invalid_request')
+})
+
+test('rejects ID token from another issuer', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ claims: { iss: 'https://issuer.example.org' } }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error_description, 'Wrong ID token issuer')
+})
+
+test('rejects ID token with wrong typ header', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ typ: 'command+jwt' }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error, 'invalid_request')
+})
+
+test('rejects ID token with wrong audience', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ claims: { aud: 'other-client-id' } }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error, 'invalid_client')
+})
+
+test('rejects ID token with wrong nonce', async () => {
+    const result = await verifyIdToken(
+        await mintToken({ claims: { nonce: 'other' } }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error_description, 'Wrong nonce in ID token')
+})
+
+test('rejects expired ID token', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const result = await verifyIdToken(
+        await mintToken({ claims: { iat: now - 600, exp: now - 300 } }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(result.error_description, 'The ID token has expired.')
+})
+
+test('rejects ID token issued in the future', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const result = await verifyIdToken(
+        await mintToken({ claims: { iat: now + 60, exp: now + 360 } }),
+        NONCE,
+    )
+    assert.ok('error' in result)
+    assert.strictEqual(
+        result.error_description,
+        'The ID token is not yet valid',
+    )
+})
+
+test('rejects malformed ID token', async () => {
+    const result = await verifyIdToken('not-a-jwt', NONCE)
+    assert.ok('error' in result)
+    assert.strictEqual(result.error, 'invalid_request')
+})
@@ -0,0 +1,186 @@
+// Tests for starting a login and receiving the authorization response
+// drives createLoginURL, saveOidc and the router with mock requests
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { decryptObj } from '@hellocoop/helper-server'
+
+import config, { configure } from '../src/lib/config.js'
+import { createLoginURL } from '../src/handlers/loginURL.js'
+import { getOidc, saveOidc, OIDC } from '../src/lib/oidc.js'
+import router from '../src/handlers/router.js'
+import { Config } from '../src/types.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const REDIRECT_URI = 'https://rp.example.com/api/hellocoop'
+
+const setup = (options: Config = {}) => {
+    configure({ client_id: CLIENT_ID, ...options })
+}
+
+test('createLoginURL passes the configured responseMode', async () => {
+    setup({ responseMode: 'form_post' })
+    const result = await createLoginURL({ redirect_uri: REDIRECT_URI })
+    assert.ok(!('error' in result))
+    const url = new URL(result.url)
+    assert.strictEqual(url.searchParams.get('response_mode'), 'form_post')
+    const state = (await decryptObj(result.state, config.secrets)) as any
+    assert.strictEqual(state.response_mode, 'form_post')
+})
+
+test('createLoginURL rejects response_mode=fragment', async () => {
+    setup()
+    const result = await createLoginURL({
+        redirect_uri: REDIRECT_URI,
+        response_mode: 'fragment',
+    })
+    assert.ok('error' in result)
+    assert.strictEqual(result.error, 'invalid_request')
+})
+
+test('OIDC cookie is SameSite=None and Secure for form_post', async () => {
+    setup()
+    const req = mockReq()
+    const { res, captured } = mockRes()
+    await saveOidc(req, res, {
+        code_verifier: 'verifier',
+        nonce: 'nonce',
+        redirect_uri: REDIRECT_URI,
+        target_uri: '/',
+        response_mode: 'form_post',
+    })
+    assert.strictEqual(captured.cookies[0].name, 'hellocoop_oidc')
+    assert.strictEqual(captured.cookies[0].options.sameSite, 'none')
+    assert.strictEqual(captured.cookies[0].options.secure, true)
+})
+
+test('router sends a form-posted authorization response to the callback', async () => {
+    setup()
+    const req = mockReq({
+        method: 'POST',
+        body: { error: 'access_denied', state: 'state', iss: 'issuer' },
+    })
+    const { res, captured } = mockRes()
+    await router(req, res)
+    // no OIDC cookie, so the callback renders its error page
+    assert.strictEqual(captured.statusCode, 200)
+    assert.match(captured.body as string, /OpenID Connect cookie lost/)
+})
+
+test('createLoginURL sends a state bound to the login transaction', async () => {
+    setup()
+    const result = await createLoginURL({ redirect_uri: REDIRECT_URI })
+    assert.ok(!('error' in result))
+    const state = new URL(result.url).searchParams.get('state')
+    assert.ok(state)
+    const oidc = (await decryptObj(result.state, config.secrets)) as any
+    assert.strictEqual(oidc.state, state)
+})
+
+test('concurrent logins keep separate OIDC cookies keyed by state', async () => {
+    setup()
+    const req = mockReq()
+    const { res, captured } = mockRes()
+    const login = (state: string): OIDC => ({
+        code_verifier: 'verifier-' + state,
+        nonce: 'nonce',
+        redirect_uri: REDIRECT_URI,
+        target_uri: '/',
+        state,
+    })
+    await saveOidc(req, res, login('tab1'))
+    await saveOidc(req, res, login('tab2'))
+    const cookie = captured.cookies
+        .map(({ name, value }) => `${name}=${value}`)
+        .join('; ')
+    const callbackReq = mockReq({ headers: { cookie } })
+    const tab1 = await getOidc(callbackReq, res, 'tab1')
+    const tab2 = await getOidc(callbackReq, res, 'tab2')
+    assert.strictEqual(tab1?.code_verifier, 'verifier-tab1')
+    assert.strictEqual(tab2?.code_verifier, 'verifier-tab2')
+    assert.strictEqual(await getOidc(callbackReq, res, 'tab3'), undefined)
+})
+
+test('createLoginURL sends max_age and keeps it in the login transaction', async () => {
+    setup()
+    const result = await createLoginURL({
+        redirect_uri: REDIRECT_URI,
+        max_age: '300',
+    })
+    assert.ok(!('error' in result))
+    assert.strictEqual(new URL(result.url).searchParams.get('max_age'), '300')
+    const oidc = (await decryptObj(result.state, config.secrets)) as any
+    assert.strictEqual(oidc.max_age, 300)
+})
+
+test('createLoginURL rejects an invalid max_age', async () => {
+    setup()
+    const result = await createLoginURL({
+        redirect_uri: REDIRECT_URI,
+        max_age: 'soon',
+    })
+    assert.ok('error' in result)
+})
+
+test('op=refresh starts a prompt=none login', async () => {
+    setup()
+    const req = mockReq({
+        query: { op: 'refresh', redirect_uri: REDIRECT_URI, target_uri: '/' },
+    })
+    const { res, captured } = mockRes()
+    await router(req, res)
+    const url = new URL(captured.body as string)
+    assert.strictEqual(url.searchParams.get('prompt'), 'none')
+    const oidc = (await decryptObj(
+        captured.cookies[0].value,
+        config.secrets,
+    )) as any
+    assert.strictEqual(oidc.prompt, 'none')
+})
+
+test('failed prompt=none refresh keeps the session', async () => {
+    setup()
+    const { res: saveRes, captured: saved } = mockRes()
+    await saveOidc(mockReq(), saveRes, {
+        code_verifier: 'verifier',
+        nonce: 'nonce',
+        redirect_uri: REDIRECT_URI,
+        target_uri: '/profile',
+        state: 'refresh-state',
+        prompt: 'none',
+    })
+    const { name, value } = saved.cookies[0]
+    const req = mockReq({
+        cookies: { [name]: value },
+        query: { error: 'login_required', state: 'refresh-state' },
+    })
+    const { res, captured } = mockRes()
+    await router(req, res)
+    assert.strictEqual(captured.body, '/profile')
+    assert.ok(!captured.cookies.some((c) => c.name === 'hellocoop_auth'))
+})
+
+test('third party initiated login checks iss against the configured provider', async () => {
+    const issuer = 'https://op.example.com'
+    setup({
+        provider: {
+            issuer,
+            authorization_endpoint: issuer + '/authorize',
+            token_endpoint: issuer + '/token',
+        },
+    })
+    const initiate = async (iss: string) => {
+        const req = mockReq({ query: { iss, redirect_uri: REDIRECT_URI } })
+        const { res, captured } = mockRes()
+        await router(req, res)
+        return captured.body as string
+    }
+    assert.ok((await initiate(issuer)).startsWith(issuer + '/authorize?'))
+    assert.match(
+        await initiate('https://issuer.hello.coop'),
+        /^Passed iss 'https:\/\/issuer.hello.coop' must be/,
+    )
+})
@@ -0,0 +1,267 @@
+// Tests for a configurable OpenID Provider
+// a local issuer stands in for the provider with token and PAR endpoints,
+// and drives endpoint discovery, createLoginURL, pushed authorization
+// requests, the callback and logout against it
+
+import './setup.js'
+
+import { test, before, after, mock } from 'node:test'
+import assert from 'node:assert'
+import { Auth } from '@hellocoop/definitions'
+import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+
+import config, { configure } from '../src/lib/config.js'
+import {
+    getIdTokenAlgorithms,
+    getProviderEndpoints,
+} from '../src/lib/provider.js'
+import { verifyIdToken } from '../src/lib/idToken.js'
+import { createLoginURL } from '../src/handlers/loginURL.js'
+import handleLogout from '../src/handlers/logout.js'
+import router from '../src/handlers/router.js'
+import { OIDCProvider } from '../src/types.js'
+import { TestIssuer, mockReq, mockRes, startIssuer } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const REDIRECT_URI = 'https://rp.example.com/api/hellocoop'
+
+let testIssuer: TestIssuer
+let issuer: string
+let discoveries = 0
+let pushed: URLSearchParams | undefined
+let idTokenSub = 'user-1' // the account the token endpoint logs in
+
+const mintIdToken = (typ: string | undefined = 'JWT') => {
+    const now = Math.floor(Date.now() / 1000)
+    return testIssuer.sign(
+        {
+            iss: issuer,
+            aud: CLIENT_ID,
+            sub: idTokenSub,
+            nonce: 'nonce',
+            iat: now,
+            exp: now + 300,
+        },
+        { typ },
+    )
+}
+
+before(async () => {
+    testIssuer = await startIssuer({
+        metadata: (issuer) => {
+            discoveries++
+            return {
+                authorization_endpoint: issuer + '/oauth2/authorize',
+                token_endpoint: issuer + '/oauth2/token',
+                pushed_authorization_request_endpoint: issuer + '/oauth2/par',
+                end_session_endpoint: issuer + '/oauth2/logout',
+                id_token_signing_alg_values_supported: [
+                    'RS256',
+                    'ES256',
+                    'none',
+                ],
+            }
+        },
+        routes: {
+            '/oauth2/par': (_, res, body) => {
+                pushed = new URLSearchParams(body)
+                res.statusCode = 201
+                res.setHeader('Content-Type', 'application/json')
+                res.end(
+                    JSON.stringify({
+                        request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+                        expires_in: 60,
+                    }),
+                )
+            },
+            '/oauth2/token': async (_, res) => {
+                res.setHeader('Content-Type', 'application/json')
+                res.end(JSON.stringify({ id_token: await mintIdToken() }))
+            },
+        },
+    })
+    issuer = testIssuer.issuer
+})
+
+after(() => {
+    testIssuer.close()
+})
+
+const setup = (
+    provider?: OIDCProvider,
+    pushedAuthorizationRequests = false,
+) => {
+    configure({ client_id: CLIENT_ID, provider, pushedAuthorizationRequests })
+}
+
+test('Hellō endpoints are on the wallet and not discovered', async () => {
+    setup()
+    const endpoints = await getProviderEndpoints()
+    assert.strictEqual(
+        endpoints.authorization_endpoint,
+        config.helloWallet + '/authorize',
+    )
+    assert.strictEqual(
+        endpoints.token_endpoint,
+        config.helloWallet + '/oauth/token',
+    )
+    assert.strictEqual(endpoints.end_session_endpoint, undefined)
+})
+
+test('provider endpoints are discovered from the issuer', async () => {
+    setup({ issuer })
+    const endpoints = await getProviderEndpoints()
+    assert.strictEqual(endpoints.issuer, issuer)
+    assert.strictEqual(endpoints.token_endpoint, issuer + '/oauth2/token')
+    assert.strictEqual(config.helloIssuer, issuer)
+})
+
+test('configured endpoints take precedence over discovery', async () => {
+    setup({
+        issuer,
+        authorization_endpoint: 'https://idp.example.com/authorize',
+        token_endpoint: 'https://idp.example.com/token',
+    })
+    const before = discoveries
+    const endpoints = await getProviderEndpoints()
+    assert.strictEqual(
+        endpoints.authorization_endpoint,
+        'https://idp.example.com/authorize',
+    )
+    assert.strictEqual(discoveries, before)
+})
+
+test('discovered metadata is refetched after an hour', async () => {
+    setup({ issuer })
+    await getProviderEndpoints()
+    const before = discoveries
+    await getProviderEndpoints()
+    assert.strictEqual(discoveries, before)
+    const later = Date.now() + 61 * 60 * 1000
+    const now = mock.method(Date, 'now', () => later)
+    try {
+        await getProviderEndpoints()
+    } finally {
+        now.mock.restore()
+    }
+    assert.strictEqual(discoveries, before + 1)
+})
+
+test('createLoginURL sends the user to the provider', async () => {
+    setup({ issuer })
+    const result = await createLoginURL({ redirect_uri: REDIRECT_URI })
+    assert.ok(!('error' in result))
+    const url = new URL(result.url)
+    assert.strictEqual(url.origin + url.pathname, issuer + '/oauth2/authorize')
+    assert.strictEqual(url.searchParams.get('client_id'), CLIENT_ID)
+})
+
+test('pushed authorization request keeps parameters out of the URL', async () => {
+    setup({ issuer }, true)
+    const result = await createLoginURL({
+        redirect_uri: REDIRECT_URI,
+        login_hint: 'user@example.com',
+    })
+    assert.ok(!('error' in result))
+    const url = new URL(result.url)
+    assert.strictEqual(url.origin + url.pathname, issuer + '/oauth2/authorize')
+    assert.deepStrictEqual(Object.fromEntries(url.searchParams), {
+        client_id: CLIENT_ID,
+        request_uri: 'urn:ietf:params:oauth:request_uri:abc',
+    })
+    assert.strictEqual(pushed?.get('login_hint'), 'user@example.com')
+    assert.strictEqual(pushed?.get('code_challenge_method'), 'S256')
+})
+
+test('logout ends the session at the provider', async () => {
+    setup({ issuer })
+    config.redirectURI = REDIRECT_URI
+    const req = mockReq({
+        query: { target_uri: '/goodbye' },
+        logoutSyncWrapper: async () => undefined,
+    })
+    const { res, captured } = mockRes()
+    await handleLogout(req, res)
+    const url = new URL(captured.body)
+    assert.strictEqual(url.origin + url.pathname, issuer + '/oauth2/logout')
+    assert.strictEqual(
+        url.searchParams.get('post_logout_redirect_uri'),
+        'https://rp.example.com/goodbye',
+    )
+})
+
+// a prompt=none profile refresh for a session of user-1 that started at iat
+const runRefresh = async (iat = Math.floor(Date.now() / 1000)) => {
+    setup({ issuer })
+    const secret = config.secret as string
+    const oidc = await encryptObj(
+        {
+            code_verifier: 'verifier',
+            nonce: 'nonce',
+            redirect_uri: REDIRECT_URI,
+            target_uri: '/profile',
+            state: 'refresh-state',
+            prompt: 'none',
+        },
+        secret,
+    )
+    const session = await encryptObj(
+        { isLoggedIn: true, sub: 'user-1', iat },
+        secret,
+    )
+    const req = mockReq({
+        cookies: {
+            [`${config.cookies.oidcName}_refresh-state`]: oidc,
+            [config.cookies.authName]: session,
+        },
+        query: { code: 'code', state: 'refresh-state' },
+        getAuth: () => undefined,
+        setAuth: () => {},
+    })
+    const { res, captured } = mockRes()
+    await router(req, res)
+    // the cookies set, not those cleared
+    const cookies = captured.cookies.filter((c) => c.value)
+    const auth = cookies.find((c) => c.name === config.cookies.authName)
+    return {
+        location: captured.body,
+        cookies: cookies.map((c) => c.name),
+        auth: auth && ((await decryptObj(auth.value, secret)) as Auth),
+    }
+}
+
+test('profile refresh replaces the session for the same account', async () => {
+    idTokenSub = 'user-1'
+    const captured = await runRefresh()
+    assert.strictEqual(captured.location, '/profile')
+    assert.deepStrictEqual(captured.cookies, ['hellocoop_auth'])
+})
+
+test('profile refresh keeps when the session started', async () => {
+    idTokenSub = 'user-1'
+    const iat = Math.floor(Date.now() / 1000) - 3600
+    const captured = await runRefresh(iat)
+    assert.strictEqual(captured.auth?.isLoggedIn && captured.auth.iat, iat)
+})
+
+test('profile refresh for a different account keeps the session', async () => {
+    idTokenSub = 'user-2'
+    const captured = await runRefresh()
+    assert.strictEqual(captured.location, '/profile')
+    assert.deepStrictEqual(captured.cookies, [])
+})
+
+test('ID token algorithms are discovered, without none', async () => {
+    setup()
+    assert.deepStrictEqual(await getIdTokenAlgorithms(), ['RS256'])
+    setup({ issuer })
+    assert.deepStrictEqual(await getIdTokenAlgorithms(), ['RS256', 'ES256'])
+})
+
+test('provider ID tokens are not required to have a typ header', async () => {
+    setup({ issuer })
+    idTokenSub = 'user-1'
+    const verified = await verifyIdToken(await mintIdToken(undefined), 'nonce')
+    assert.ok('payload' in verified, JSON.stringify(verified))
+    assert.strictEqual(verified.payload.sub, 'user-1')
+})
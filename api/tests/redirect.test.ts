@@ -0,0 +1,107 @@
+// Tests for open redirect protection of target_uri
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+
+import { configure } from '../src/lib/config.js'
+import { isAllowedRedirect, safeTargetURI } from '../src/lib/redirect.js'
+import handleLogout from '../src/handlers/logout.js'
+import handleWildcardConsole from '../src/handlers/wildcard.js'
+import { Config } from '../src/types.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+const REDIRECT_URI = 'https://rp.example.com/api/hellocoop'
+
+const setup = (config: Config = {}) => {
+    configure({ client_id: CLIENT_ID, ...config })
+}
+
+test('relative and same-origin target_uris are allowed', () => {
+    setup()
+    assert.ok(isAllowedRedirect('/dashboard?tab=1', REDIRECT_URI))
+    assert.ok(isAllowedRedirect('https://rp.example.com/x', REDIRECT_URI))
+})
+
+test('other origins are rejected by default', () => {
+    setup()
+    for (const target_uri of [
+        'https://evil.example',
+        '//evil.example/path',
+        '/\\evil.example',
+        'javascript:alert(1)',
+        'http://rp.example.com/x',
+    ])
+        assert.ok(!isAllowedRedirect(target_uri, REDIRECT_URI), target_uri)
+})
+
+test('only relative target_uris are allowed when our origin is unknown', () => {
+    setup()
+    assert.ok(isAllowedRedirect('/dashboard'))
+    assert.ok(!isAllowedRedirect('https://rp.example.com/x'))
+})
+
+test('allowedRedirects adds origins and path prefixes', () => {
+    setup({
+        allowedRedirects: [
+            'https://app.example.com',
+            'https://docs.example.com/guides/',
+            'https://rp.example.org/app',
+        ],
+    })
+    assert.ok(isAllowedRedirect('https://app.example.com/any', REDIRECT_URI))
+    assert.ok(
+        isAllowedRedirect('https://docs.example.com/guides/a', REDIRECT_URI),
+    )
+    assert.ok(!isAllowedRedirect('https://docs.example.com/', REDIRECT_URI))
+    assert.ok(!isAllowedRedirect('https://evil.example', REDIRECT_URI))
+    assert.ok(isAllowedRedirect('https://rp.example.org/app', REDIRECT_URI))
+    assert.ok(isAllowedRedirect('https://rp.example.org/app/x', REDIRECT_URI))
+    assert.ok(
+        !isAllowedRedirect('https://rp.example.org/app-evil', REDIRECT_URI),
+    )
+})
+
+test('safeTargetURI returns undefined for a rejected target_uri', () => {
+    setup()
+    assert.strictEqual(safeTargetURI(['/a', '/b'], REDIRECT_URI), '/a')
+    assert.strictEqual(
+        safeTargetURI('https://evil.example', REDIRECT_URI),
+        undefined,
+    )
+})
+
+test('logout to another origin redirects to routes.loggedOut', async () => {
+    setup({ routes: { loggedOut: '/goodbye' } })
+    const req = mockReq({
+        headers: { host: 'rp.example.com' },
+        query: { target_uri: 'https://evil.example' },
+        getAuth: () => undefined,
+    })
+    const { res, captured } = mockRes()
+    await handleLogout(req, res)
+    assert.strictEqual(captured.body, '/goodbye')
+})
+
+test('the wildcard console links to a safe target_uri', async () => {
+    setup({ routes: { loggedIn: '/home' } })
+    const page = async (targetURI: string) => {
+        const req = mockReq({
+            headers: { host: 'rp.example.com' },
+            query: {
+                uri: 'https://console.hello.coop/',
+                appName: 'App',
+                redirectURI: REDIRECT_URI,
+                targetURI,
+            },
+        })
+        const { res, captured } = mockRes()
+        await handleWildcardConsole(req, res)
+        return captured.body as string
+    }
+    assert.match(await page('/dashboard'), /<a href="\/dashboard">/)
+    assert.match(await page('javascript:alert(1)'), /<a href="\/home">/)
+    assert.match(await page('https://evil.example'), /<a href="\/home">/)
+})
@@ -0,0 +1,41 @@
+// Tests for step-up authentication helpers
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Auth } from '@hellocoop/definitions'
+
+import { configure } from '../src/lib/config.js'
+import { isRecentAuth, getReauthURL } from '../src/lib/stepUp.js'
+
+const NOW = Math.floor(Date.now() / 1000)
+
+const auth = (claims: Record<string, unknown> = {}): Auth => ({
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: NOW,
+    ...claims,
+})
+
+test('auth_time within maxAge is recent', () => {
+    assert.ok(isRecentAuth(auth({ auth_time: NOW - 60 }), 300))
+})
+
+test('auth_time older than maxAge is not recent', () => {
+    assert.ok(!isRecentAuth(auth({ auth_time: NOW - 600 }), 300))
+})
+
+test('without auth_time a session is never recent', () => {
+    assert.ok(!isRecentAuth(auth(), 300))
+    assert.ok(!isRecentAuth({ isLoggedIn: false }, 300))
+})
+
+test('reauth URL requests max_age and returns to target_uri', () => {
+    configure({ client_id: 'test-client-id' })
+    const url = new URL(getReauthURL(300, '/pay?id=1'), 'https://rp.example')
+    assert.strictEqual(url.pathname, '/api/hellocoop')
+    assert.strictEqual(url.searchParams.get('op'), 'login')
+    assert.strictEqual(url.searchParams.get('max_age'), '300')
+    assert.strictEqual(url.searchParams.get('target_uri'), '/pay?id=1')
+})
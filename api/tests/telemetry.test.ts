@@ -0,0 +1,102 @@
+// Tests for OpenTelemetry instrumentation
+// passes a recording tracer and meter in config.telemetry and drives the
+// router and traceTokenEndpoint with mock requests
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import type { Meter, Tracer } from '@opentelemetry/api'
+
+import { configure } from '../src/lib/config.js'
+import { traceTokenEndpoint } from '../src/lib/telemetry.js'
+import router from '../src/handlers/router.js'
+import { mockReq, mockRes } from './helpers.js'
+
+const CLIENT_ID = 'test-client-id'
+
+type RecordedSpan = {
+    name: string
+    attributes: Record<string, unknown>
+    status?: { code: number }
+    ended: boolean
+}
+type Measurement = { name: string; value: number; attributes?: object }
+
+const setup = () => {
+    const spans: RecordedSpan[] = []
+    const measurements: Measurement[] = []
+    const startSpan = (name: string, options: any = {}) => {
+        const span: RecordedSpan = {
+            name,
+            attributes: options.attributes || {},
+            ended: false,
+        }
+        spans.push(span)
+        return {
+            recordException: () => {},
+            setStatus: (status: { code: number }) => (span.status = status),
+            end: () => (span.ended = true),
+        }
+    }
+    const tracer = {
+        startSpan,
+        startActiveSpan: (name: string, options: any, fn: any) =>
+            fn(startSpan(name, options)),
+    } as unknown as Tracer
+    const instrument = (name: string) => {
+        const record = (value: number, attributes?: object) =>
+            measurements.push({ name, value, attributes })
+        return { add: record, record }
+    }
+    const meter = {
+        createCounter: instrument,
+        createHistogram: instrument,
+    } as unknown as Meter
+    configure({ client_id: CLIENT_ID, telemetry: { tracer, meter } })
+    return { spans, measurements }
+}
+
+test('each router op has a span', async () => {
+    const { spans } = setup()
+    const req = mockReq({
+        query: { error: 'access_denied', state: 'unknown' },
+    })
+    await router(req, mockRes().res)
+    assert.strictEqual(spans.length, 1)
+    assert.strictEqual(spans[0].name, 'hellocoop callback')
+    assert.strictEqual(spans[0].attributes['hellocoop.op'], 'callback')
+    assert.ok(spans[0].ended)
+})
+
+test('login failures are counted by error', async () => {
+    const { measurements } = setup()
+    const req = mockReq({
+        query: { error: 'access_denied', state: 'unknown' },
+    })
+    await router(req, mockRes().res)
+    assert.deepStrictEqual(measurements, [
+        {
+            name: 'hellocoop.login.failures',
+            value: 1,
+            attributes: { error: 'invalid_request' },
+        },
+    ])
+})
+
+test('token endpoint calls have a span and a duration', async () => {
+    const { spans, measurements } = setup()
+    await assert.rejects(
+        traceTokenEndpoint('https://wallet.example/oauth/token', async () => {
+            throw new Error('token endpoint down')
+        }),
+    )
+    assert.strictEqual(spans[0].name, 'hellocoop token_endpoint')
+    assert.strictEqual(spans[0].status?.code, 2)
+    assert.ok(spans[0].ended)
+    assert.strictEqual(
+        measurements[0].name,
+        'hellocoop.token_endpoint.duration',
+    )
+    assert.deepStrictEqual(measurements[0].attributes, { outcome: 'error' })
+})
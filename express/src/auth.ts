@@ -15,12 +15,15 @@ import {
     LoginSyncResponse,
     LogoutSyncResponse,
     clearAuthCookieParams,
+    destroyAuthSession,
     getAuthfromCookies,
     isConfigured,
     configure,
     Config,
     configuration,
     PackageMetadata,
+    updateAuth as apiUpdateAuth,
+    AuthUpdates,
 } from '@hellocoop/api'
 
 // set name and version to provide in metadata
@@ -39,6 +42,9 @@ type ExpressLoginParams = {
 type ExpressLogoutParams = {
     req: Request
     res: Response
+    // set for a back-channel logout
+    sub?: string
+    sid?: string
 }
 
 type ExpressLoginSync = (
@@ -68,8 +74,8 @@ const convertToHelloRequest = (req: Request, res: Response): HelloRequest => {
         loginSyncWrapper: (loginSync, params) => {
             return loginSync({ ...params, req, res })
         },
-        logoutSyncWrapper: (logoutSync) => {
-            return logoutSync({ req, res })
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, req, res })
         },
     }
 }
@@ -116,7 +122,7 @@ declare global {
             getAuth(): Promise<Auth>
         }
         interface Response {
-            clearAuth(): void
+            clearAuth(): Promise<void>
         }
     }
 }
@@ -149,12 +155,17 @@ export const auth = function (config: Config): Router {
     r.use(async (req: Request, res: Response, next: NextFunction) => {
         const helloReq = convertToHelloRequest(req, res)
         req.getAuth = async () => {
-            req.auth = await getAuthfromCookies(helloReq)
+            // the response renews, re-encrypts or clears the cookie
+            req.auth = await getAuthfromCookies(
+                helloReq,
+                convertToHelloResponse(res),
+            )
             return req.auth
         }
-        res.clearAuth = () => {
+        res.clearAuth = async () => {
             const { name, value, options } = clearAuthCookieParams()
             res.setHeader('Set-Cookie', serialize(name, value, options))
+            await destroyAuthSession(helloReq)
         }
         next()
     })
@@ -180,3 +191,17 @@ export const auth = function (config: Config): Router {
     )
     return r
 }
+
+// replace profile claims in the current session from a route handler, e.g.
+// after the user edits their profile -- null for a Bearer token
+export const updateAuth = async (
+    req: Request,
+    res: Response,
+    authUpdates: AuthUpdates,
+): Promise<Auth | null> => {
+    const helloReq = convertToHelloRequest(req, res)
+    const helloRes = convertToHelloResponse(res)
+    const auth = await apiUpdateAuth(helloReq, helloRes, authUpdates)
+    if (auth) req.auth = auth
+    return auth
+}
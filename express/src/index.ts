@@ -1,7 +1,12 @@
-import { auth, HelloConfig } from './auth'
+import { auth, HelloConfig, updateAuth } from './auth'
 export default auth
-export { auth as helloAuth, HelloConfig }
-export { redirect, unauthorized, setAuth } from './middleware'
+export { auth as helloAuth, HelloConfig, updateAuth }
+export {
+    redirect,
+    unauthorized,
+    setAuth,
+    requireRecentAuth,
+} from './middleware'
 export {
     LoginSyncResponse,
     LogoutSyncResponse,
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express'
 import { Auth } from '@hellocoop/definitions'
-import { configuration } from '@hellocoop/api'
+import { configuration, getReauthURL, isRecentAuth } from '@hellocoop/api'
 
 export const redirect = function (target: string) {
     return async (req: Request, res: Response, next: NextFunction) => {
@@ -23,6 +23,16 @@ export const unauthorized = async (
             .send()
 }
 
+// step-up: re-authenticate at Hellō unless the user authenticated in the
+// last `seconds`, then return to this request's URL
+export const requireRecentAuth = function (seconds: number) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const auth: Auth = await req.getAuth()
+        if (isRecentAuth(auth, seconds)) next()
+        else res.redirect(getReauthURL(seconds, req.originalUrl))
+    }
+}
+
 export const setAuth = async (
     req: Request,
     res: Response,
@@ -17,12 +17,15 @@ import {
     HelloResponse,
     HelloRequest,
     clearAuthCookieParams,
+    destroyAuthSession,
     getAuthfromCookies,
     isConfigured,
     configure,
     configuration,
     Config,
     PackageMetadata,
+    updateAuth as apiUpdateAuth,
+    AuthUpdates,
 } from '@hellocoop/api'
 
 // set name and version to provide in metadata
@@ -52,8 +55,8 @@ const convertToHelloRequest = (
         loginSyncWrapper: (loginSync, params) => {
             return loginSync({ ...params, req, res })
         },
-        logoutSyncWrapper: (logoutSync) => {
-            return logoutSync({ req, res })
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, req, res })
         },
     }
 }
@@ -90,7 +93,7 @@ declare module 'fastify' {
         getAuth: () => Promise<Auth>
     }
     interface FastifyReply {
-        clearAuth: () => void
+        clearAuth: () => Promise<void>
     }
 }
 
@@ -103,15 +106,22 @@ const helloPlugin: FastifyPluginAsync<HelloConfig> = async (
     if (!isConfigured) configure(options)
     instance.register(fastifyFormbody)
     instance.decorateRequest('auth', undefined)
-    instance.decorateRequest('getAuth', async function () {
-        const dummyResponse: FastifyReply = {} as FastifyReply
-        const helloReq = convertToHelloRequest(this, dummyResponse)
-        this.auth = await getAuthfromCookies(helloReq)
-        return this.auth
+    instance.decorateRequest('getAuth', null as unknown as () => Promise<Auth>)
+    // getAuth needs the reply, which the request does not reference, to
+    // renew, re-encrypt or clear the cookie
+    instance.addHook('onRequest', async (request, reply) => {
+        request.getAuth = async () => {
+            request.auth = await getAuthfromCookies(
+                convertToHelloRequest(request, reply),
+                convertToHelloResponse(reply),
+            )
+            return request.auth
+        }
     })
-    instance.decorateReply('clearAuth', function () {
+    instance.decorateReply('clearAuth', async function () {
         const { name, value, options } = clearAuthCookieParams()
         this.header('Set-Cookie', serialize(name, value, options))
+        await destroyAuthSession(convertToHelloRequest(this.request, this))
     })
 
     instance.get(configuration.apiRoute, async (req, res) => {
@@ -127,3 +137,17 @@ const helloPlugin: FastifyPluginAsync<HelloConfig> = async (
 }
 
 export const auth = fp(helloPlugin)
+
+// replace profile claims in the current session from a route handler, e.g.
+// after the user edits their profile -- null for a Bearer token
+export const updateAuth = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    authUpdates: AuthUpdates,
+): Promise<Auth | null> => {
+    const helloReq = convertToHelloRequest(request, reply)
+    const helloRes = convertToHelloResponse(reply)
+    const auth = await apiUpdateAuth(helloReq, helloRes, authUpdates)
+    if (auth) request.auth = auth
+    return auth
+}
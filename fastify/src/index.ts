@@ -1,9 +1,14 @@
-import { auth, HelloConfig } from './auth'
+import { auth, HelloConfig, updateAuth } from './auth'
 export default auth
-export { auth as helloAuth, HelloConfig }
+export { auth as helloAuth, HelloConfig, updateAuth }
 export {
     LoginSyncResponse,
     LogoutSyncResponse,
     LoginSyncParams,
 } from '@hellocoop/api'
-export { redirect, unauthorized, setAuth } from './middleware'
+export {
+    redirect,
+    unauthorized,
+    setAuth,
+    requireRecentAuth,
+} from './middleware'
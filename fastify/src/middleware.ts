@@ -1,6 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify'
 import { Auth } from '@hellocoop/definitions'
-import { configuration } from '@hellocoop/api'
+import { configuration, getReauthURL, isRecentAuth } from '@hellocoop/api'
 
 declare module 'fastify' {
     interface FastifyRequest {
@@ -32,6 +32,16 @@ export const unauthorized = async (
     }
 }
 
+// step-up: re-authenticate at Hellō unless the user authenticated in the
+// last `seconds`, then return to this request's URL
+export const requireRecentAuth = (seconds: number) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+        const auth: Auth = await request.getAuth()
+        if (!isRecentAuth(auth, seconds))
+            return reply.redirect(getReauthURL(seconds, request.url))
+    }
+}
+
 export const setAuth = async (request: FastifyRequest) => {
     await request.getAuth()
 }
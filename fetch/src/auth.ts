@@ -0,0 +1,153 @@
+// Fetch API adapter -- runs the Hellō router on a Web-standard Request
+// and returns a Response, for Bun, Deno, Cloudflare Workers and Hono
+
+import { serialize } from 'cookie'
+import { Auth } from '@hellocoop/definitions'
+import {
+    router,
+    HelloResponse,
+    HelloRequest,
+    clearAuthCookieParams,
+    getAuthfromCookies,
+    isConfigured,
+    configure,
+    Config,
+    PackageMetadata,
+} from '@hellocoop/api'
+
+// set name and version to provide in metadata
+import parentPackageJson from '../package.json'
+const { name, version } = parentPackageJson
+PackageMetadata.setMetadata(name, version)
+
+export type HelloConfig = Config
+
+type InternalResponse = {
+    body?: any
+    json?: any
+    status: number
+    headers: Headers
+    redirect?: string
+}
+
+// form and JSON POST bodies are read from the stream
+const parseBody = async (request: Request): Promise<any> => {
+    if (request.method !== 'POST') return undefined
+    const contentType = request.headers.get('content-type') || ''
+    try {
+        if (contentType.includes('application/json'))
+            return await request.json()
+        if (contentType.includes('application/x-www-form-urlencoded'))
+            return Object.fromEntries(
+                new URLSearchParams(await request.text()).entries(),
+            )
+    } catch (e) {
+        console.error('could not parse POST body', e)
+    }
+    return {}
+}
+
+const convertToHelloRequest = (
+    request: Request,
+    res: InternalResponse,
+    body?: any,
+): HelloRequest => {
+    const url = new URL(request.url)
+    let auth: Auth | undefined
+    return {
+        headers: () => Object.fromEntries(request.headers.entries()),
+        query: Object.fromEntries(url.searchParams.entries()),
+        path: url.pathname,
+        getAuth: () => auth,
+        setAuth: (a: Auth) => {
+            auth = a
+        },
+        method: request.method,
+        body,
+        loginSyncWrapper: (loginSync, params) => {
+            return loginSync({ ...params, request, headers: res.headers })
+        },
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, request, headers: res.headers })
+        },
+        frameWork: 'fetch',
+    }
+}
+
+const convertToHelloResponse = (res: InternalResponse): HelloResponse => {
+    const send = (data: any) => {
+        res.body = data
+        res.headers.set('Content-Type', 'text/html')
+    }
+    return {
+        clearAuth: () => {
+            const { name, value, options } = clearAuthCookieParams()
+            res.headers.append('Set-Cookie', serialize(name, value, options))
+        },
+        send,
+        json: (json: any) => (res.json = json),
+        redirect: (url: string) => (res.redirect = url),
+        setCookie: (name: string, value: string, options: any) => {
+            res.headers.append('Set-Cookie', serialize(name, value, options))
+        },
+        getHeaders: () => Object.fromEntries(res.headers.entries()),
+        setHeader: (name: string, value: string | string[]) => {
+            res.headers.set(
+                name,
+                Array.isArray(value) ? value.join(', ') : value,
+            )
+        },
+        status: (statusCode: number) => {
+            res.status = statusCode
+            return { send }
+        },
+    }
+}
+
+const toResponse = (res: InternalResponse): Response => {
+    if (res.redirect) {
+        res.headers.set('Location', res.redirect)
+        return new Response(null, { status: 302, headers: res.headers })
+    }
+    if (res.json !== undefined) {
+        res.headers.set('Content-Type', 'application/json')
+        return new Response(JSON.stringify(res.json), {
+            status: res.status,
+            headers: res.headers,
+        })
+    }
+    return new Response(res.body ?? null, {
+        status: res.status,
+        headers: res.headers,
+    })
+}
+
+// handles a request to the Hellō API route (config.apiRoute)
+export const handle = async (request: Request): Promise<Response> => {
+    const res: InternalResponse = { status: 200, headers: new Headers() }
+    const helloReq = convertToHelloRequest(
+        request,
+        res,
+        await parseBody(request),
+    )
+    await router(helloReq, convertToHelloResponse(res))
+    return toResponse(res)
+}
+
+// pass the headers of your Response to get the Set-Cookie headers that
+// renew, re-encrypt or clear the auth cookie
+export const getAuth = async (
+    request: Request,
+    headers: Headers = new Headers(),
+): Promise<Auth> => {
+    const res: InternalResponse = { status: 200, headers }
+    return getAuthfromCookies(
+        convertToHelloRequest(request, res),
+        convertToHelloResponse(res),
+    )
+}
+
+export const helloAuth = (config: HelloConfig) => {
+    if (!isConfigured) configure(config)
+    return { handle, getAuth }
+}
@@ -0,0 +1,32 @@
+// Hono middleware -- serves the Hellō API route and provides
+// c.get('getAuth') to the routes after it
+
+import { Auth } from '@hellocoop/definitions'
+import { configuration } from '@hellocoop/api'
+import { getAuth, handle, helloAuth, HelloConfig } from './auth'
+
+// the parts of Hono's Context used here, so hono is not a dependency
+type HonoContext = {
+    req: { raw: Request; path: string }
+    res: Response
+    set(key: 'getAuth', value: () => Promise<Auth>): void
+}
+
+// declare as Variables in Hono's Env to type c.get('getAuth')
+export type HelloVariables = {
+    getAuth: () => Promise<Auth>
+}
+
+export const honoAuth = (config: HelloConfig) => {
+    helloAuth(config)
+    return async (c: HonoContext, next: () => Promise<void>) => {
+        if (c.req.path === configuration.apiRoute) return handle(c.req.raw)
+        let auth: Promise<Auth> | undefined
+        const cookies = new Headers()
+        c.set('getAuth', () => (auth ??= getAuth(c.req.raw, cookies)))
+        await next()
+        // the renewed, re-encrypted or cleared auth cookie
+        for (const cookie of cookies.getSetCookie())
+            c.res.headers.append('Set-Cookie', cookie)
+    }
+}
@@ -0,0 +1,8 @@
+import { handle, getAuth, helloAuth, HelloConfig } from './auth'
+export { handle, getAuth, helloAuth, HelloConfig }
+export { honoAuth, HelloVariables } from './hono'
+export {
+    LoginSyncResponse,
+    LogoutSyncResponse,
+    LoginSyncParams,
+} from '@hellocoop/api'
@@ -0,0 +1,118 @@
+// Tests for the Fetch API adapter
+// drives handle, getAuth and the Hono middleware with Web-standard Requests
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import { helloAuth } from '../src/auth.js'
+import { honoAuth } from '../src/hono.js'
+
+const API = 'https://rp.example.com/api/hellocoop'
+const { handle, getAuth } = helloAuth({
+    client_id: 'test-client-id',
+    sessionIdleTimeout: 600,
+})
+const SECRET = process.env.HELLO_COOKIE_SECRET as string
+
+// the auth cookie value getAuth set in the headers
+const setAuthCookie = (headers: Headers) =>
+    headers
+        .getSetCookie()
+        .find((cookie) => cookie.startsWith('hellocoop_auth='))
+        ?.split(';')[0]
+        .slice('hellocoop_auth='.length)
+
+test('op=auth responds with JSON', async () => {
+    const response = await handle(new Request(API + '?op=auth'))
+    assert.strictEqual(response.status, 200)
+    assert.match(response.headers.get('content-type') || '', /json/)
+    assert.deepStrictEqual(await response.json(), { isLoggedIn: false })
+})
+
+test('op=login redirects to Hellō and sets the OIDC cookie', async () => {
+    const response = await handle(
+        new Request(`${API}?op=login&redirect_uri=${encodeURIComponent(API)}`),
+    )
+    assert.strictEqual(response.status, 302)
+    const location = new URL(response.headers.get('location') || '')
+    assert.strictEqual(location.searchParams.get('client_id'), 'test-client-id')
+    assert.match(response.headers.get('set-cookie') || '', /^hellocoop_oidc_/)
+})
+
+test('form POST bodies reach the router', async () => {
+    const response = await handle(
+        new Request(API, {
+            method: 'POST',
+            headers: { 'content-type': 'application/x-www-form-urlencoded' },
+            body: 'unknown=1',
+        }),
+    )
+    assert.strictEqual(response.status, 400)
+    assert.match(await response.text(), /Unknown POST parameters/)
+})
+
+test('getAuth is not logged in without a cookie', async () => {
+    const auth = await getAuth(new Request('https://rp.example.com/'))
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('Hono middleware serves the API route and sets getAuth', async () => {
+    const middleware = honoAuth({ client_id: 'test-client-id' })
+    const context = (url: string) => {
+        const vars: Record<string, unknown> = {}
+        return {
+            vars,
+            req: { raw: new Request(url), path: new URL(url).pathname },
+            res: new Response(),
+            set: (key: string, value: unknown) => (vars[key] = value),
+        }
+    }
+
+    const api = context(API + '?op=auth')
+    const response = await middleware(api, async () => {
+        assert.fail('next called for the API route')
+    })
+    assert.ok(response instanceof Response)
+
+    const page = context('https://rp.example.com/profile')
+    let nextCalled = false
+    await middleware(page, async () => {
+        nextCalled = true
+    })
+    assert.ok(nextCalled)
+    const auth = await (page.vars.getAuth as () => Promise<Auth>)()
+    assert.strictEqual(auth.isLoggedIn, false)
+})
+
+test('getAuth keeps an active session alive past the idle timeout', async (t) => {
+    const start = Date.now()
+    let clock = start
+    t.mock.method(Date, 'now', () => clock)
+    const login = await encryptObj(
+        { isLoggedIn: true, sub: 'user-123', iat: Math.floor(start / 1000) },
+        SECRET,
+    )
+    const request = (cookie: string) =>
+        new Request('https://rp.example.com/', {
+            headers: { cookie: `hellocoop_auth=${cookie}` },
+        })
+    let cookie = login
+    // a request every 400 seconds, within the 600 second idle timeout
+    for (let i = 1; i <= 3; i++) {
+        clock = start + i * 400 * 1000
+        const headers = new Headers()
+        assert.ok((await getAuth(request(cookie), headers)).isLoggedIn)
+        cookie = setAuthCookie(headers) || assert.fail('cookie not renewed')
+    }
+    // the login cookie alone has been idle too long, and is cleared
+    const headers = new Headers()
+    assert.strictEqual(
+        (await getAuth(request(login), headers)).isLoggedIn,
+        false,
+    )
+    assert.strictEqual(setAuthCookie(headers), '')
+})
@@ -0,0 +1,39 @@
+// Tests for a secret passed in the config
+// runs without HELLO_COOKIE_SECRET, as on Cloudflare Workers where
+// bindings are not in process.env
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import { helloAuth } from '../src/auth.js'
+
+const SECRET =
+    '66c71f55568f7b0c3b30cb6a8df9975b5125000caa775240b2e76eb96c43715e'
+const API = 'https://rp.example.com/api/hellocoop'
+
+const { handle, getAuth } = helloAuth({
+    client_id: 'test-client-id',
+    secret: SECRET,
+})
+
+test('login state is encrypted with the configured secret', async () => {
+    const response = await handle(
+        new Request(`${API}?op=login&redirect_uri=${encodeURIComponent(API)}`),
+    )
+    assert.strictEqual(response.status, 302)
+    assert.match(response.headers.get('set-cookie') || '', /^hellocoop_oidc_/)
+})
+
+test('getAuth decrypts with the configured secret', async () => {
+    const auth = {
+        isLoggedIn: true,
+        sub: 'user-123',
+        iat: Math.floor(Date.now() / 1000),
+    }
+    const cookie = await encryptObj(auth, SECRET)
+    const request = new Request('https://rp.example.com/', {
+        headers: { cookie: `hellocoop_auth=${cookie}` },
+    })
+    assert.deepStrictEqual(await getAuth(request), auth)
+})
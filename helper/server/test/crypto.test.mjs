@@ -0,0 +1,111 @@
+import test from 'node:test'
+import assert from 'node:assert'
+import nodeCrypto from 'node:crypto'
+import Module, { createRequire } from 'node:module'
+
+import {
+    encryptObj,
+    decryptObj,
+    checkSecret,
+    webCrypto,
+} from '../dist/server/index.js'
+
+const SECRET =
+    '66c71f55568f7b0c3b30cb6a8df9975b5125000caa775240b2e76eb96c43715e'
+const PREVIOUS_SECRET =
+    'a4d3c1b2e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90'
+const OBJ = { isLoggedIn: true, sub: 'user-123', name: 'Dïck Härdt' }
+
+test('WebCrypto decrypts what Node.js crypto encrypted', async () => {
+    const encrypted = await encryptObj(OBJ, SECRET)
+    assert.deepStrictEqual(await webCrypto.decryptObj(encrypted, SECRET), OBJ)
+})
+
+test('Node.js crypto decrypts what WebCrypto encrypted', async () => {
+    const encrypted = await webCrypto.encryptObj(OBJ, SECRET)
+    assert.deepStrictEqual(await decryptObj(encrypted, SECRET), OBJ)
+})
+
+test('both produce the same bytes for the same iv', async (t) => {
+    const iv = new Uint8Array(12).fill(7)
+    t.mock.method(nodeCrypto, 'randomBytes', () => Buffer.from(iv))
+    t.mock.method(globalThis.crypto, 'getRandomValues', (array) => {
+        array.set(iv)
+        return array
+    })
+    assert.strictEqual(
+        await webCrypto.encryptObj(OBJ, SECRET),
+        await encryptObj(OBJ, SECRET),
+    )
+})
+
+test('WebCrypto accepts previous secrets', async () => {
+    const encrypted = await encryptObj(OBJ, PREVIOUS_SECRET)
+    const result = await webCrypto.decryptObjWithSecrets(encrypted, [
+        SECRET,
+        PREVIOUS_SECRET,
+    ])
+    assert.deepStrictEqual(result, { obj: OBJ, secretIndex: 1 })
+    assert.strictEqual(await webCrypto.decryptObj(encrypted, SECRET), null)
+})
+
+test('edge runtime is served by WebCrypto', async (t) => {
+    globalThis.EdgeRuntime = 'edge-runtime'
+    t.after(() => delete globalThis.EdgeRuntime)
+    const randomBytes = t.mock.method(nodeCrypto, 'randomBytes')
+    const encrypted = await encryptObj(OBJ, SECRET)
+    assert.strictEqual(randomBytes.mock.callCount(), 0)
+    assert.deepStrictEqual(await decryptObj(encrypted, SECRET), OBJ)
+})
+
+test('only a secret of exactly 64 hex digits is accepted', () => {
+    for (const check of [checkSecret, webCrypto.checkSecret]) {
+        assert.ok(check(SECRET))
+        assert.ok(!check(SECRET + 'zz'))
+        assert.ok(!check(SECRET + '00'))
+        assert.ok(!check(SECRET.slice(2)))
+    }
+})
+
+// Next.js edge builds replace the crypto module with a stub that throws
+// when any property is read
+test('loads and encrypts with the edge runtime crypto stub', async (t) => {
+    const stub = new Proxy(
+        {},
+        {
+            get: () => {
+                throw new Error(
+                    'The edge runtime does not support Node.js crypto module',
+                )
+            },
+        },
+    )
+    const load = Module._load
+    Module._load = function (request, ...args) {
+        if (request === 'crypto' || request === 'node:crypto') return stub
+        return load.call(this, request, ...args)
+    }
+    globalThis.EdgeRuntime = 'edge-runtime'
+    // load fresh copies of the helper modules that see the stub
+    const require = createRequire(import.meta.url)
+    const dist = new URL('../dist/', import.meta.url).pathname
+    const cached = Object.keys(require.cache).filter((key) =>
+        key.startsWith(dist),
+    )
+    const saved = cached.map((key) => [key, require.cache[key]])
+    cached.forEach((key) => delete require.cache[key])
+    t.after(() => {
+        Module._load = load
+        delete globalThis.EdgeRuntime
+        Object.keys(require.cache)
+            .filter((key) => key.startsWith(dist))
+            .forEach((key) => delete require.cache[key])
+        saved.forEach(([key, module]) => (require.cache[key] = module))
+    })
+
+    const edge = require('../dist/server/index.js')
+    const encrypted = await edge.encryptObj(OBJ, SECRET)
+    assert.deepStrictEqual(await edge.decryptObj(encrypted, SECRET), OBJ)
+    assert.ok(edge.checkSecret(SECRET))
+    assert.ok((await edge.pkce()).code_challenge)
+})
@@ -5,6 +5,7 @@ import {
     pkce,
     verifyChallenge,
     generateChallenge,
+    wildcardConsole,
 } from '../dist/server/index.js '
 
 test('default verifier length is 43', async () => {
@@ -52,3 +53,16 @@ test('generateChallenge should create a consistent challenge from a code_verifie
     const code_challenge = await generateChallenge(challengePair.code_verifier)
     assert.strictEqual(code_challenge, challengePair.code_challenge)
 })
+
+test('wildcardConsole escapes the values from the query', () => {
+    const page = wildcardConsole({
+        uri: '"); alert(1); ("',
+        targetURI: '"><script>alert(2)</script>',
+        appName: '<img src=x onerror=alert(3)>',
+        redirectURI: 'https://rp.example.com/</script>',
+    })
+    assert.ok(!page.includes('<script>alert'))
+    assert.ok(!page.includes('<img'))
+    assert.ok(page.includes('href="&#34;&#62;&#60;script&#62;'))
+    assert.ok(page.includes('window.open("\\"); alert(1); (\\"", "_blank")'))
+})
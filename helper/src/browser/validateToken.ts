@@ -8,6 +8,7 @@ export type ValidateConfig = {
     client_id: string
     nonce?: string
     wallet?: string
+    introspection_endpoint?: string // overrides wallet + /oauth/introspect
 }
 
 export interface IntrospectionResponse extends TokenPayload {
@@ -19,6 +20,7 @@ export async function validateToken({
     client_id,
     nonce,
     wallet,
+    introspection_endpoint,
 }: ValidateConfig): Promise<IntrospectionResponse> {
     const params: Record<string, any> = {
         token,
@@ -26,7 +28,9 @@ export async function validateToken({
         nonce,
     }
     const body = new URLSearchParams(params).toString()
-    const introspectEndpoint = (wallet || PRODUCTION_WALLET) + DEFAULT_ENDPOINT
+    const introspectEndpoint =
+        introspection_endpoint ||
+        (wallet || PRODUCTION_WALLET) + DEFAULT_ENDPOINT
 
     try {
         const r = await fetch(introspectEndpoint, {
@@ -37,12 +37,14 @@ export interface ICreateAuthRequest {
     response_type?: AuthResponseType
     response_mode?: AuthResponseMode
     wallet?: string
+    authorization_endpoint?: string // overrides wallet + /authorize
     nonce?: string
     state?: string
     login_hint?: string
     domain_hint?: string
     provider_hint?: ProviderHint[]
     prompt?: string
+    max_age?: number
 }
 
 export interface AuthenticationResponse {
@@ -96,6 +98,12 @@ export async function createAuthRequest(
     if (config.prompt) {
         params.prompt = config.prompt
     }
+    if (config.state) {
+        params.state = config.state
+    }
+    if (config.max_age !== undefined) {
+        params.max_age = String(config.max_age)
+    }
     if (params.response_type === 'code') {
         const pkceMaterial = await pkce()
         code_verifier = pkceMaterial.code_verifier
@@ -112,10 +120,11 @@ export async function createAuthRequest(
         params.domain_hint = config.domain_hint
     }
 
-    const url =
-        (config.wallet || PRODUCTION_WALLET) +
-        DEFAULT_PATH +
-        new URLSearchParams(params).toString()
+    const endpoint = config.authorization_endpoint
+        ? config.authorization_endpoint +
+          (config.authorization_endpoint.includes('?') ? '&' : '?')
+        : (config.wallet || PRODUCTION_WALLET) + DEFAULT_PATH
+    const url = endpoint + new URLSearchParams(params).toString()
     return {
         url,
         nonce,
@@ -9,6 +9,7 @@ export type FetchConfig = {
     client_id: string
     redirect_uri: string
     wallet?: string
+    token_endpoint?: string // overrides wallet + /oauth/token
 }
 
 export async function fetchToken({
@@ -17,6 +18,7 @@ export async function fetchToken({
     client_id,
     redirect_uri,
     wallet,
+    token_endpoint,
 }: FetchConfig): Promise<string> {
     const params: Record<string, any> = {
         code,
@@ -26,7 +28,8 @@ export async function fetchToken({
         grant_type: 'authorization_code',
     }
     const body = new URLSearchParams(params).toString()
-    const tokenEndpoint = (wallet || PRODUCTION_WALLET) + DEFAULT_ENDPOINT
+    const tokenEndpoint =
+        token_endpoint || (wallet || PRODUCTION_WALLET) + DEFAULT_ENDPOINT
 
     try {
         const r = await fetch(tokenEndpoint, {
@@ -0,0 +1,45 @@
+// pushes an authorization request from createAuthRequest to the provider
+// so only client_id and request_uri are sent through the browser
+// https://www.rfc-editor.org/rfc/rfc9126
+
+export type PushConfig = {
+    url: string // from createAuthRequest
+    pushed_authorization_request_endpoint: string
+}
+
+export async function pushAuthRequest({
+    url,
+    pushed_authorization_request_endpoint,
+}: PushConfig): Promise<string> {
+    const authURL = new URL(url)
+    const client_id = authURL.searchParams.get('client_id')
+    if (!client_id)
+        throw new Error('client_id is required in the authorization request.')
+    const body = authURL.searchParams.toString()
+
+    try {
+        const r = await fetch(pushed_authorization_request_endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body,
+        })
+        const json = await r.json()
+
+        if (!r.ok) {
+            const message =
+                `Fetch ${pushed_authorization_request_endpoint} failed with ${r.status}. ` +
+                (json.error ? json.error + '.' : '')
+            throw new Error(message)
+        }
+
+        if (!json.request_uri) throw new Error('No request_uri in response.')
+
+        authURL.search = new URLSearchParams({
+            client_id,
+            request_uri: json.request_uri,
+        }).toString()
+        return authURL.href
+    } catch (error: any) {
+        throw new Error(error)
+    }
+}
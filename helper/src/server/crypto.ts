@@ -1,6 +1,10 @@
 // Chat-GPT generated code -- tested with its test suite
 
-import * as crypto from 'crypto'
+// named imports are only read when called, so loading this module with
+// the edge runtime's crypto stub does not throw
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import * as webCrypto from './webCrypto'
+import { useWebCrypto } from './runtime'
 
 // Function to convert a Uint8Array to a URL-safe base64 string
 function uint8ArrayToUrlSafeBase64(uint8Array: Uint8Array): string {
@@ -27,11 +31,12 @@ function urlSafeBase64ToUint8Array(base64String: string): Uint8Array {
 
 // Function to encrypt a JavaScript object and return a URL-safe base64 string
 export async function encryptObj(obj: object, secret: string): Promise<string> {
+    if (useWebCrypto()) return webCrypto.encryptObj(obj, secret)
     const textEncoder = new TextEncoder()
     const encodedData = textEncoder.encode(JSON.stringify(obj))
-    const iv = crypto.randomBytes(12)
+    const iv = randomBytes(12)
     const key = Buffer.from(secret, 'hex')
-    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
     const ciphertext = Buffer.concat([
         iv,
         cipher.update(encodedData),
@@ -42,36 +47,56 @@ export async function encryptObj(obj: object, secret: string): Promise<string> {
     return uint8ArrayToUrlSafeBase64(new Uint8Array(encryptedData))
 }
 
+function decrypt(encryptedStr: string, secret: string): object {
+    const encryptedData = urlSafeBase64ToUint8Array(encryptedStr)
+    const iv = encryptedData.slice(0, 12)
+    const tag = encryptedData.slice(-16)
+    const ciphertext = encryptedData.slice(12, -16)
+    const key = Buffer.from(secret, 'hex')
+    const decipher = createDecipheriv('aes-256-gcm', key, iv)
+    decipher.setAuthTag(tag)
+    const decryptedData = Buffer.concat([
+        decipher.update(ciphertext),
+        decipher.final(),
+    ])
+    const decryptedText = new TextDecoder().decode(decryptedData)
+    return JSON.parse(decryptedText)
+}
+
+// Function to decrypt with the first of several secrets that works
+// secretIndex > 0 means the string was encrypted with an older secret
+export async function decryptObjWithSecrets(
+    encryptedStr: string,
+    secrets: string[],
+): Promise<{ obj: object; secretIndex: number } | null> {
+    if (useWebCrypto())
+        return webCrypto.decryptObjWithSecrets(encryptedStr, secrets)
+    let lastError: unknown
+    for (let secretIndex = 0; secretIndex < secrets.length; secretIndex++) {
+        try {
+            const obj = decrypt(encryptedStr, secrets[secretIndex])
+            return { obj, secretIndex }
+        } catch (error) {
+            lastError = error
+        }
+    }
+    console.error('decryption error - old cookie?', lastError)
+    return null
+}
+
 // Function to decrypt an encrypted string and return the JavaScript object
+// pass a list of secrets to accept strings encrypted with any of them
 export async function decryptObj(
     encryptedStr: string,
-    secret: string,
+    secret: string | string[],
 ): Promise<object | null> {
-    try {
-        const encryptedData = urlSafeBase64ToUint8Array(encryptedStr)
-        const iv = encryptedData.slice(0, 12)
-        const tag = encryptedData.slice(-16)
-        const ciphertext = encryptedData.slice(12, -16)
-        const key = Buffer.from(secret, 'hex')
-        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv)
-        decipher.setAuthTag(tag)
-        const decryptedData = Buffer.concat([
-            decipher.update(ciphertext),
-            decipher.final(),
-        ])
-        const decryptedText = new TextDecoder().decode(decryptedData)
-        return JSON.parse(decryptedText)
-    } catch (error) {
-        console.error('decryption error - old cookie?', error)
-        // console.error('Decryption error:', error);
-        return null
-    }
+    const secrets = Array.isArray(secret) ? secret : [secret]
+    const result = await decryptObjWithSecrets(encryptedStr, secrets)
+    return result ? result.obj : null
 }
 
-export const checkSecret = (secret: string): boolean => {
-    const key = Buffer.from(secret, 'hex')
-    return Buffer.byteLength(key) == 32
-}
+// the same rule in every runtime -- 64 hex digits, a 256 bit key
+export const checkSecret = webCrypto.checkSecret
 /*****  test code
 
   // Example usage:
@@ -4,19 +4,22 @@ export * from './errorPage'
 export * from '../common/createAuthRequest'
 export * from '../common/createInviteRequest'
 export * from '../common/fetchToken'
+export * from '../common/pushAuthRequest'
 export * from './parseToken'
 export * from './redirectURIBounce'
 export * from './wildcardConsole'
 export * from './crypto'
+export * as webCrypto from './webCrypto'
 export * from './sameSite'
 
-// crypto wrapper for PKCE
-import * as _crypto from 'crypto'
+// crypto wrapper for PKCE -- WebCrypto where Node.js crypto is stubbed
+import { webcrypto } from 'crypto'
+import { useWebCrypto } from './runtime'
 import {
     generateChallenge,
     pkce,
     verifyChallenge,
     setCrypto,
 } from '../common/pkce'
-setCrypto(_crypto)
+setCrypto(useWebCrypto() ? globalThis.crypto : webcrypto)
 export { generateChallenge, verifyChallenge, pkce, pkce as pkceChallenge }
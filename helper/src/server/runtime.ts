@@ -0,0 +1,8 @@
+// Next.js middleware and edge routes set EdgeRuntime and only stub Node.js
+// crypto -- reading anything from it throws -- so they and other runtimes
+// without Node.js use WebCrypto
+declare const EdgeRuntime: string | undefined
+export const useWebCrypto = (): boolean =>
+    typeof EdgeRuntime === 'string' ||
+    typeof process === 'undefined' ||
+    !process.versions?.node
@@ -0,0 +1,101 @@
+// WebCrypto AES-256-GCM cookie encryption for runtimes without Node.js
+// crypto, such as Next.js middleware and edge routes. Strings are
+// byte-identical to crypto.ts -- iv (12) + ciphertext + tag (16), URL-safe
+// base64 -- so either implementation decrypts what the other encrypted.
+
+const IV_LENGTH = 12
+
+const subtle = (): SubtleCrypto => globalThis.crypto.subtle
+
+function uint8ArrayToUrlSafeBase64(uint8Array: Uint8Array): string {
+    let binaryString = ''
+    for (let i = 0; i < uint8Array.length; i++) {
+        binaryString += String.fromCharCode(uint8Array[i])
+    }
+    return btoa(binaryString)
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=/g, '')
+}
+
+function urlSafeBase64ToUint8Array(base64String: string): Uint8Array {
+    const base64 = base64String.replace(/-/g, '+').replace(/_/g, '/')
+    const padding = '='.repeat((4 - (base64.length % 4)) % 4)
+    const binaryString = atob(base64 + padding)
+    const uint8Array = new Uint8Array(binaryString.length)
+    for (let i = 0; i < binaryString.length; i++) {
+        uint8Array[i] = binaryString.charCodeAt(i)
+    }
+    return uint8Array
+}
+
+function hexToUint8Array(hex: string): Uint8Array {
+    const bytes = new Uint8Array(hex.length / 2)
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16)
+    }
+    return bytes
+}
+
+const importKey = (secret: string, usage: KeyUsage): Promise<CryptoKey> =>
+    subtle().importKey('raw', hexToUint8Array(secret), 'AES-GCM', false, [
+        usage,
+    ])
+
+export async function encryptObj(obj: object, secret: string): Promise<string> {
+    const encodedData = new TextEncoder().encode(JSON.stringify(obj))
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const key = await importKey(secret, 'encrypt')
+    // WebCrypto appends the 16 byte tag to the ciphertext
+    const ciphertext = await subtle().encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        encodedData,
+    )
+    const encryptedData = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+    encryptedData.set(iv)
+    encryptedData.set(new Uint8Array(ciphertext), IV_LENGTH)
+    return uint8ArrayToUrlSafeBase64(encryptedData)
+}
+
+async function decrypt(encryptedStr: string, secret: string): Promise<object> {
+    const encryptedData = urlSafeBase64ToUint8Array(encryptedStr)
+    const iv = encryptedData.slice(0, IV_LENGTH)
+    const ciphertext = encryptedData.slice(IV_LENGTH)
+    const key = await importKey(secret, 'decrypt')
+    const decryptedData = await subtle().decrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        ciphertext,
+    )
+    return JSON.parse(new TextDecoder().decode(decryptedData))
+}
+
+export async function decryptObjWithSecrets(
+    encryptedStr: string,
+    secrets: string[],
+): Promise<{ obj: object; secretIndex: number } | null> {
+    let lastError: unknown
+    for (let secretIndex = 0; secretIndex < secrets.length; secretIndex++) {
+        try {
+            const obj = await decrypt(encryptedStr, secrets[secretIndex])
+            return { obj, secretIndex }
+        } catch (error) {
+            lastError = error
+        }
+    }
+    console.error('decryption error - old cookie?', lastError)
+    return null
+}
+
+export async function decryptObj(
+    encryptedStr: string,
+    secret: string | string[],
+): Promise<object | null> {
+    const secrets = Array.isArray(secret) ? secret : [secret]
+    const result = await decryptObjWithSecrets(encryptedStr, secrets)
+    return result ? result.obj : null
+}
+
+export const checkSecret = (secret: string): boolean =>
+    /^[0-9a-f]{64}$/i.test(secret)
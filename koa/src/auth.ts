@@ -0,0 +1,172 @@
+import type { Context, Middleware, Next } from 'koa'
+import { serialize } from 'cookie'
+import { Auth, Claims } from '@hellocoop/definitions'
+import {
+    router,
+    HelloResponse,
+    HelloRequest,
+    LoginSyncResponse,
+    LogoutSyncResponse,
+    clearAuthCookieParams,
+    destroyAuthSession,
+    getAuthfromCookies,
+    isConfigured,
+    configure,
+    Config,
+    configuration,
+    PackageMetadata,
+    updateAuth as apiUpdateAuth,
+    AuthUpdates,
+} from '@hellocoop/api'
+
+// set name and version to provide in metadata
+import parentPackageJson from '../package.json'
+const { name, version } = parentPackageJson
+PackageMetadata.setMetadata(name, version)
+
+type KoaLoginParams = {
+    token: string
+    payload: Claims
+    target_uri: string
+    ctx: Context
+}
+
+type KoaLogoutParams = {
+    ctx: Context
+    // set for a back-channel logout
+    sub?: string
+    sid?: string
+}
+
+type KoaLoginSync = (params: KoaLoginParams) => Promise<LoginSyncResponse>
+type KoaLogoutSync = (params: KoaLogoutParams) => Promise<LogoutSyncResponse>
+
+export type HelloConfig = Omit<Config, 'loginSync' | 'logoutSync'> & {
+    loginSync?: KoaLoginSync
+    logoutSync?: KoaLogoutSync
+}
+
+declare module 'koa' {
+    interface DefaultContext {
+        auth?: Auth
+        getAuth(): Promise<Auth>
+        clearAuth(): Promise<void>
+    }
+}
+
+// Koa has no body parser -- use the one a bodyparser middleware set, or read
+// form bodies as an object and anything else as text, as Express does
+const parseBody = async (ctx: Context): Promise<any> => {
+    if (ctx.method !== 'POST') return undefined
+    const parsed = (ctx.request as { body?: any }).body
+    if (parsed !== undefined) return parsed
+    const text = await new Promise<string>((resolve, reject) => {
+        let data = ''
+        ctx.req.setEncoding('utf8')
+        ctx.req.on('data', (chunk: string) => (data += chunk))
+        ctx.req.on('end', () => resolve(data))
+        ctx.req.on('error', reject)
+    })
+    if (ctx.is('application/x-www-form-urlencoded'))
+        return Object.fromEntries(new URLSearchParams(text).entries())
+    return text
+}
+
+const convertToHelloRequest = (ctx: Context, body?: any): HelloRequest => {
+    return {
+        headers: () => ctx.headers as { [key: string]: string },
+        query: ctx.query as { [key: string]: string } | {},
+        path: ctx.path,
+        getAuth: () => ctx.auth,
+        setAuth: (auth: Auth) => {
+            ctx.auth = auth
+        },
+        method: ctx.method,
+        body,
+        frameWork: 'koa',
+        loginSyncWrapper: (loginSync, params) => {
+            return loginSync({ ...params, ctx })
+        },
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, ctx })
+        },
+    }
+}
+
+const convertToHelloResponse = (ctx: Context): HelloResponse => {
+    const send = (data: any) => {
+        ctx.type = 'text/html'
+        ctx.body = data
+    }
+    return {
+        clearAuth: () => {
+            const { name, value, options } = clearAuthCookieParams()
+            ctx.append('Set-Cookie', serialize(name, value, options))
+        },
+        send,
+        json: (data: any) => (ctx.body = data),
+        redirect: (url: string) => ctx.redirect(url),
+        setCookie: (name: string, value: string, options: any) => {
+            ctx.append('Set-Cookie', serialize(name, value, options))
+        },
+        setHeader: (name: string, value: string | string[]) => {
+            if (Array.isArray(value) && name.toLowerCase() !== 'set-cookie') {
+                ctx.set(name, value.join(', '))
+            } else {
+                ctx.append(name, value)
+            }
+        },
+        getHeaders: () => ctx.response.headers as Record<string, string>,
+        status: (statusCode: number) => {
+            ctx.status = statusCode
+            return { send }
+        },
+    }
+}
+
+// serves the Hellō API route and adds ctx.getAuth() and ctx.clearAuth() to
+// the middleware and routes after it
+export const auth = function (config: HelloConfig): Middleware {
+    if (!isConfigured) {
+        configure(config as Config)
+    }
+
+    return async (ctx: Context, next: Next) => {
+        if (
+            ctx.path === configuration.apiRoute &&
+            (ctx.method === 'GET' || ctx.method === 'POST')
+        ) {
+            const helloReq = convertToHelloRequest(ctx, await parseBody(ctx))
+            await router(helloReq, convertToHelloResponse(ctx))
+            return
+        }
+        const helloReq = convertToHelloRequest(ctx)
+        ctx.getAuth = async () => {
+            // the response renews, re-encrypts or clears the cookie
+            ctx.auth = await getAuthfromCookies(
+                helloReq,
+                convertToHelloResponse(ctx),
+            )
+            return ctx.auth
+        }
+        ctx.clearAuth = async () => {
+            const { name, value, options } = clearAuthCookieParams()
+            ctx.append('Set-Cookie', serialize(name, value, options))
+            await destroyAuthSession(helloReq)
+        }
+        await next()
+    }
+}
+
+// replace profile claims in the current session from a route, e.g. after
+// the user edits their profile -- null for a Bearer token
+export const updateAuth = async (
+    ctx: Context,
+    authUpdates: AuthUpdates,
+): Promise<Auth | null> => {
+    const helloReq = convertToHelloRequest(ctx)
+    const helloRes = convertToHelloResponse(ctx)
+    const auth = await apiUpdateAuth(helloReq, helloRes, authUpdates)
+    if (auth) ctx.auth = auth
+    return auth
+}
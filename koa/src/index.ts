@@ -0,0 +1,14 @@
+import { auth, HelloConfig, updateAuth } from './auth'
+export default auth
+export { auth as helloAuth, HelloConfig, updateAuth }
+export {
+    redirect,
+    unauthorized,
+    setAuth,
+    requireRecentAuth,
+} from './middleware'
+export {
+    LoginSyncResponse,
+    LogoutSyncResponse,
+    LoginSyncParams,
+} from '@hellocoop/api'
@@ -0,0 +1,35 @@
+import type { Context, Next } from 'koa'
+import { Auth } from '@hellocoop/definitions'
+import { configuration, getReauthURL, isRecentAuth } from '@hellocoop/api'
+
+export const redirect = function (target: string) {
+    return async (ctx: Context, next: Next) => {
+        const auth: Auth = await ctx.getAuth()
+        if (auth.isLoggedIn) await next()
+        else ctx.redirect(target)
+    }
+}
+
+export const unauthorized = async (ctx: Context, next: Next) => {
+    const auth: Auth = await ctx.getAuth()
+    if (auth.isLoggedIn) await next()
+    else {
+        ctx.set('WWW-Authenticate', `Hello ${configuration.clientId}`)
+        ctx.status = 401
+    }
+}
+
+// step-up: re-authenticate at Hellō unless the user authenticated in the
+// last `seconds`, then return to this request's URL
+export const requireRecentAuth = function (seconds: number) {
+    return async (ctx: Context, next: Next) => {
+        const auth: Auth = await ctx.getAuth()
+        if (isRecentAuth(auth, seconds)) await next()
+        else ctx.redirect(getReauthURL(seconds, ctx.originalUrl))
+    }
+}
+
+export const setAuth = async (ctx: Context, next: Next) => {
+    await ctx.getAuth() // sets ctx.auth
+    await next()
+}
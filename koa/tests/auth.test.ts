@@ -0,0 +1,139 @@
+// Tests for the Koa middleware
+// serves a Koa app on a local port and drives the API route, ctx.getAuth(),
+// ctx.clearAuth() and the redirect and unauthorized middleware with fetch
+
+import './setup.js'
+
+import { test, before, after } from 'node:test'
+import assert from 'node:assert'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import Koa from 'koa'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import { helloAuth, redirect, unauthorized } from '../src/index.js'
+
+const SECRET = process.env.HELLO_COOKIE_SECRET as string
+const AUTH: Auth = {
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: Math.floor(Date.now() / 1000),
+}
+
+let server: http.Server
+let origin: string
+
+before(async () => {
+    const app = new Koa()
+    app.use(helloAuth({ client_id: 'test-client-id', sessionIdleTimeout: 600 }))
+    app.use(async (ctx, next) => {
+        if (ctx.path === '/auth') ctx.body = await ctx.getAuth()
+        else if (ctx.path === '/logout') {
+            await ctx.clearAuth()
+            ctx.body = 'logged out'
+        } else await next()
+    })
+    app.use(async (ctx, next) => {
+        if (ctx.path === '/private') await redirect('/login')(ctx, next)
+        else if (ctx.path === '/api/private') await unauthorized(ctx, next)
+        else await next()
+    })
+    app.use((ctx) => {
+        ctx.body = 'ok'
+    })
+    server = http.createServer(app.callback())
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+    server.close()
+})
+
+const get = async (path: string, auth?: Auth | string) =>
+    fetch(origin + path, {
+        redirect: 'manual',
+        headers: auth
+            ? {
+                  cookie: `hellocoop_auth=${typeof auth === 'string' ? auth : await encryptObj(auth, SECRET)}`,
+              }
+            : {},
+    })
+
+// the auth cookie value a response sets
+const setAuthCookie = (response: Response) =>
+    response.headers
+        .getSetCookie()
+        .find((cookie) => cookie.startsWith('hellocoop_auth='))
+        ?.split(';')[0]
+        .slice('hellocoop_auth='.length)
+
+test('op=auth at the API route responds with JSON', async () => {
+    const response = await get('/api/hellocoop?op=auth')
+    assert.strictEqual(response.status, 200)
+    assert.deepStrictEqual(await response.json(), { isLoggedIn: false })
+})
+
+test('op=login redirects to Hellō and sets the OIDC cookie', async () => {
+    const redirect_uri = encodeURIComponent(origin + '/api/hellocoop')
+    const response = await get(
+        `/api/hellocoop?op=login&redirect_uri=${redirect_uri}`,
+    )
+    assert.strictEqual(response.status, 302)
+    const location = new URL(response.headers.get('location') || '')
+    assert.strictEqual(location.searchParams.get('client_id'), 'test-client-id')
+    assert.match(response.headers.get('set-cookie') || '', /^hellocoop_oidc_/)
+})
+
+test('ctx.getAuth() reads the auth cookie', async () => {
+    assert.deepStrictEqual(await (await get('/auth')).json(), {
+        isLoggedIn: false,
+    })
+    assert.deepStrictEqual(await (await get('/auth', AUTH)).json(), AUTH)
+})
+
+test('ctx.clearAuth() clears the auth cookie', async () => {
+    const response = await get('/logout', AUTH)
+    assert.strictEqual(response.status, 200)
+    assert.match(response.headers.get('set-cookie') || '', /^hellocoop_auth=;/)
+})
+
+test('redirect sends logged out users to the target', async () => {
+    const response = await get('/private')
+    assert.strictEqual(response.status, 302)
+    assert.strictEqual(response.headers.get('location'), '/login')
+    assert.strictEqual((await get('/private', AUTH)).status, 200)
+})
+
+test('unauthorized responds 401 with WWW-Authenticate', async () => {
+    const response = await get('/api/private')
+    assert.strictEqual(response.status, 401)
+    assert.strictEqual(
+        response.headers.get('www-authenticate'),
+        'Hello test-client-id',
+    )
+    assert.strictEqual((await get('/api/private', AUTH)).status, 200)
+})
+
+test('ctx.getAuth() keeps an active session alive past the idle timeout', async (t) => {
+    const start = Date.now()
+    let clock = start
+    t.mock.method(Date, 'now', () => clock)
+    const login = await encryptObj(
+        { ...AUTH, iat: Math.floor(start / 1000) },
+        SECRET,
+    )
+    let cookie = login
+    // a request every 400 seconds, within the 600 second idle timeout
+    for (let i = 1; i <= 3; i++) {
+        clock = start + i * 400 * 1000
+        const response = await get('/auth', cookie)
+        assert.ok(((await response.json()) as Auth).isLoggedIn, `request ${i}`)
+        cookie = setAuthCookie(response) || assert.fail('cookie not renewed')
+    }
+    // the login cookie alone has been idle too long, and is cleared
+    const response = await get('/auth', login)
+    assert.strictEqual(((await response.json()) as Auth).isLoggedIn, false)
+    assert.strictEqual(setAuthCookie(response), '')
+})
@@ -0,0 +1,65 @@
+// Tests for cookie secret rotation
+// HELLO_COOKIE_SECRET lists the current secret first and the retired one
+// after it -- set here, in place of setup.js, before @hellocoop/api loads
+
+const CURRENT =
+    'a4d3c1b2e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90'
+const RETIRED =
+    '66c71f55568f7b0c3b30cb6a8df9975b5125000caa775240b2e76eb96c43715e'
+process.env.HELLO_COOKIE_SECRET = `${CURRENT},${RETIRED}`
+
+import { test, before, after } from 'node:test'
+import assert from 'node:assert'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import Koa from 'koa'
+import { Auth } from '@hellocoop/definitions'
+import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+
+import { helloAuth } from '../src/index.js'
+
+const AUTH: Auth = {
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: Math.floor(Date.now() / 1000),
+}
+
+let server: http.Server
+let origin: string
+
+before(async () => {
+    const app = new Koa()
+    app.use(helloAuth({ client_id: 'test-client-id' }))
+    app.use(async (ctx) => {
+        ctx.body = await ctx.getAuth()
+    })
+    server = http.createServer(app.callback())
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+    server.close()
+})
+
+const getAuth = async (secret: string) =>
+    fetch(origin + '/auth', {
+        headers: { cookie: `hellocoop_auth=${await encryptObj(AUTH, secret)}` },
+    })
+
+test('ctx.getAuth() re-encrypts a cookie from a retired secret', async () => {
+    const response = await getAuth(RETIRED)
+    assert.deepStrictEqual(await response.json(), AUTH)
+    const cookie = response.headers
+        .getSetCookie()
+        .find((cookie) => cookie.startsWith('hellocoop_auth='))
+    assert.ok(cookie, 'cookie not re-encrypted')
+    const value = cookie.split(';')[0].slice('hellocoop_auth='.length)
+    assert.deepStrictEqual(await decryptObj(value, CURRENT), AUTH)
+})
+
+test('ctx.getAuth() leaves a cookie from the current secret alone', async () => {
+    const response = await getAuth(CURRENT)
+    assert.deepStrictEqual(await response.json(), AUTH)
+    assert.deepStrictEqual(response.headers.getSetCookie(), [])
+})
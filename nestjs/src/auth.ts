@@ -0,0 +1,117 @@
+import type { Request, Response } from 'express'
+import { serialize } from 'cookie'
+import { Auth, Claims, NotLoggedIn } from '@hellocoop/definitions'
+import {
+    router,
+    HelloResponse,
+    HelloRequest,
+    LoginSyncResponse,
+    LogoutSyncResponse,
+    clearAuthCookieParams,
+    getAuthfromCookies,
+    Config,
+    PackageMetadata,
+} from '@hellocoop/api'
+
+// set name and version to provide in metadata
+import parentPackageJson from '../package.json'
+const { name, version } = parentPackageJson
+PackageMetadata.setMetadata(name, version)
+
+type NestLoginParams = {
+    token: string
+    payload: Claims
+    target_uri: string
+    req: Request
+    res: Response
+}
+
+type NestLogoutParams = {
+    req: Request
+    res: Response
+    // set for a back-channel logout
+    sub?: string
+    sid?: string
+}
+
+type NestLoginSync = (params: NestLoginParams) => Promise<LoginSyncResponse>
+type NestLogoutSync = (params: NestLogoutParams) => Promise<LogoutSyncResponse>
+
+export type HelloConfig = Omit<Config, 'loginSync' | 'logoutSync'> & {
+    loginSync?: NestLoginSync
+    logoutSync?: NestLogoutSync
+}
+
+// the Express request, with the Auth AuthGuard read from the cookies
+export type HelloExpressRequest = Request & { auth?: Auth }
+
+const convertToHelloRequest = (
+    req: HelloExpressRequest,
+    res: Response,
+): HelloRequest => {
+    return {
+        headers: () => req.headers as { [key: string]: string },
+        query: req.query as { [key: string]: string } | {},
+        path: req.path,
+        getAuth: () => req.auth,
+        setAuth: (auth: Auth) => {
+            req.auth = auth
+        },
+        method: req.method,
+        body: req.body,
+        frameWork: 'nestjs',
+        loginSyncWrapper: (loginSync, params) => {
+            return loginSync({ ...params, req, res })
+        },
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, req, res })
+        },
+    }
+}
+
+const convertToHelloResponse = (res: Response): HelloResponse => {
+    return {
+        clearAuth: () => {
+            const { name, value, options } = clearAuthCookieParams()
+            res.append('Set-Cookie', serialize(name, value, options))
+        },
+        send: (data: any) => res.type('text/html').send(data),
+        json: (data: any) => res.json(data),
+        redirect: (url: string) => res.redirect(url),
+        setCookie: (name: string, value: string, options: any) => {
+            res.append('Set-Cookie', serialize(name, value, options))
+        },
+        setHeader: (name: string, value: string | string[]) => {
+            if (Array.isArray(value) && name.toLowerCase() !== 'set-cookie') {
+                res.setHeader(name, value.join(', '))
+            } else {
+                res.append(name, value)
+            }
+        },
+        getHeaders: () => res.getHeaders() as Record<string, string>,
+        status: (statusCode: number) => {
+            res.status(statusCode)
+            return {
+                send: (data: any) => res.send(data),
+            }
+        },
+    }
+}
+
+// runs the Hellō router for a request to the API route
+export const handle = async (req: HelloExpressRequest, res: Response) => {
+    await router(convertToHelloRequest(req, res), convertToHelloResponse(res))
+}
+
+// reads the Auth from the cookies once per request
+export const getAuth = async (
+    req: HelloExpressRequest,
+    res: Response,
+): Promise<Auth> => {
+    if (!req.auth)
+        req.auth = await getAuthfromCookies(
+            convertToHelloRequest(req, res),
+            convertToHelloResponse(res),
+        )
+    return req.auth || NotLoggedIn
+}
@@ -0,0 +1,21 @@
+import {
+    createParamDecorator,
+    ExecutionContext,
+    SetMetadata,
+} from '@nestjs/common'
+import { NotLoggedIn } from '@hellocoop/definitions'
+import type { HelloExpressRequest } from './auth'
+
+export const REQUIRE_CLAIMS = 'hellocoop:require_claims'
+
+// the claims AuthGuard requires in the Auth, e.g. @RequireClaims('email')
+export const RequireClaims = (...claims: string[]) =>
+    SetMetadata(REQUIRE_CLAIMS, claims)
+
+// the Auth AuthGuard read -- NotLoggedIn on routes without the guard
+export const CurrentAuth = createParamDecorator(
+    (_data: unknown, context: ExecutionContext) => {
+        const req = context.switchToHttp().getRequest<HelloExpressRequest>()
+        return req.auth || NotLoggedIn
+    },
+)
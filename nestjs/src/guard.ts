@@ -0,0 +1,40 @@
+import {
+    CanActivate,
+    ExecutionContext,
+    ForbiddenException,
+    Injectable,
+    UnauthorizedException,
+} from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import type { Response } from 'express'
+import { getAuth, HelloExpressRequest } from './auth'
+import { REQUIRE_CLAIMS } from './decorators'
+
+// lets logged in users through -- 401 when not logged in, and 403 when a
+// claim named by @RequireClaims is missing from the Auth
+@Injectable()
+export class AuthGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) {}
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const http = context.switchToHttp()
+        const auth = await getAuth(
+            http.getRequest<HelloExpressRequest>(),
+            http.getResponse<Response>(),
+        )
+        if (!auth.isLoggedIn) throw new UnauthorizedException()
+        const claims =
+            this.reflector.getAllAndOverride<string[] | undefined>(
+                REQUIRE_CLAIMS,
+                [context.getHandler(), context.getClass()],
+            ) || []
+        const missing = claims.filter(
+            (claim) => (auth as Record<string, unknown>)[claim] === undefined,
+        )
+        if (missing.length)
+            throw new ForbiddenException(
+                `missing required claims: ${missing.join(', ')}`,
+            )
+        return true
+    }
+}
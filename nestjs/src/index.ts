@@ -0,0 +1,10 @@
+export { HelloModule } from './module'
+export { AuthGuard } from './guard'
+export { CurrentAuth, RequireClaims, REQUIRE_CLAIMS } from './decorators'
+export { getAuth, HelloConfig, HelloExpressRequest } from './auth'
+export {
+    LoginSyncResponse,
+    LogoutSyncResponse,
+    LoginSyncParams,
+} from '@hellocoop/api'
+export type { Auth } from '@hellocoop/definitions'
@@ -0,0 +1,48 @@
+import {
+    Controller,
+    DynamicModule,
+    Get,
+    Module,
+    Post,
+    Req,
+    Res,
+    Type,
+} from '@nestjs/common'
+import type { Response } from 'express'
+import { Config, configuration, configure, isConfigured } from '@hellocoop/api'
+import { handle, HelloConfig, HelloExpressRequest } from './auth'
+import { AuthGuard } from './guard'
+
+// the route is only known once configured, so the controller is declared
+// in forRoot
+const createHelloController = (apiRoute: string): Type<unknown> => {
+    @Controller(apiRoute)
+    class HelloController {
+        @Get()
+        get(@Req() req: HelloExpressRequest, @Res() res: Response) {
+            return handle(req, res)
+        }
+
+        @Post()
+        post(@Req() req: HelloExpressRequest, @Res() res: Response) {
+            return handle(req, res)
+        }
+    }
+    return HelloController
+}
+
+@Module({})
+export class HelloModule {
+    static forRoot(config: HelloConfig): DynamicModule {
+        if (!isConfigured) {
+            configure(config as Config)
+        }
+        return {
+            module: HelloModule,
+            global: true,
+            controllers: [createHelloController(configuration.apiRoute)],
+            providers: [AuthGuard],
+            exports: [AuthGuard],
+        }
+    }
+}
@@ -0,0 +1,106 @@
+// Tests for AuthGuard and @RequireClaims
+// serves an Express app on a local port whose routes run AuthGuard for the
+// handlers of a decorated controller, and drives them with fetch
+
+import './setup.js'
+
+import { test, before, after } from 'node:test'
+import assert from 'node:assert'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import express, { Request, Response } from 'express'
+import { HttpException } from '@nestjs/common'
+import { Reflector } from '@nestjs/core'
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+import { configure } from '@hellocoop/api'
+
+import { AuthGuard, RequireClaims } from '../src/index.js'
+import { handle } from '../src/auth.js'
+
+const SECRET = process.env.HELLO_COOKIE_SECRET as string
+const AUTH: Auth = {
+    isLoggedIn: true,
+    sub: 'user-123',
+    iat: Math.floor(Date.now() / 1000),
+}
+
+class ProfileController {
+    profile() {}
+
+    @RequireClaims('email')
+    email() {}
+}
+
+let server: http.Server
+let origin: string
+
+before(async () => {
+    configure({ client_id: 'test-client-id' })
+    const guard = new AuthGuard(new Reflector())
+    const guarded =
+        (handler: keyof ProfileController) =>
+        async (req: Request, res: Response) => {
+            const context = new ExecutionContextHost(
+                [req, res],
+                ProfileController,
+                ProfileController.prototype[handler],
+            )
+            try {
+                await guard.canActivate(context)
+                res.json((req as Request & { auth?: Auth }).auth)
+            } catch (e) {
+                if (!(e instanceof HttpException)) throw e
+                res.status(e.getStatus()).json(e.getResponse())
+            }
+        }
+    const app = express()
+    app.get('/api/hellocoop', handle)
+    app.get('/profile', guarded('profile'))
+    app.get('/email', guarded('email'))
+    server = http.createServer(app)
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+    server.close()
+})
+
+const get = async (path: string, auth?: Auth) =>
+    fetch(origin + path, {
+        headers: auth
+            ? { cookie: `hellocoop_auth=${await encryptObj(auth, SECRET)}` }
+            : {},
+    })
+
+test('op=auth at the API route responds with JSON', async () => {
+    const response = await get('/api/hellocoop?op=auth')
+    assert.strictEqual(response.status, 200)
+    assert.deepStrictEqual(await response.json(), { isLoggedIn: false })
+})
+
+test('AuthGuard responds 401 when not logged in', async () => {
+    assert.strictEqual((await get('/profile')).status, 401)
+})
+
+test('AuthGuard lets logged in users through with the Auth', async () => {
+    const response = await get('/profile', AUTH)
+    assert.strictEqual(response.status, 200)
+    assert.deepStrictEqual(await response.json(), AUTH)
+})
+
+test('AuthGuard responds 403 when a @RequireClaims claim is missing', async () => {
+    const response = await get('/email', AUTH)
+    assert.strictEqual(response.status, 403)
+    const body = (await response.json()) as { message: string }
+    assert.match(body.message, /missing required claims: email/)
+})
+
+test('AuthGuard lets users with the @RequireClaims claims through', async () => {
+    const auth = { ...AUTH, email: 'user@example.com' }
+    const response = await get('/email', auth)
+    assert.strictEqual(response.status, 200)
+    assert.deepStrictEqual(await response.json(), auth)
+})
@@ -0,0 +1,96 @@
+'use server'
+
+// server actions for the app router -- pass them to a form's action or call
+// them from a client component. signIn and signOut end in a redirect, so
+// don't call them inside a try/catch.
+
+import { Auth } from '@hellocoop/definitions'
+import {
+    AuthUpdates,
+    OIDC,
+    configuration,
+    createLoginURL,
+    destroyAuthSession,
+    getRequestOrigin,
+    isConfigured,
+    safeTargetURI,
+    saveOidc,
+} from '@hellocoop/api'
+import { decryptObj } from '@hellocoop/helper-server'
+import { redirect } from 'next/navigation'
+import { cookieStoreContext, updateAuth } from './auth'
+
+export type SignInOptions = {
+    target_uri?: string
+    scope?: string
+    provider_hint?: string
+    login_hint?: string
+    domain_hint?: string
+    prompt?: string
+}
+
+export type SignOutOptions = {
+    target_uri?: string
+}
+
+// the profile claims a user may change -- any client can call a server
+// action, and updateAuth only takes EDITABLE_CLAIMS from it
+export type SessionChanges = AuthUpdates
+
+// <form action={signIn}> passes the form's fields as FormData
+const toOptions = <T extends object>(options?: T | FormData): T => {
+    if (!(options instanceof FormData)) return options || ({} as T)
+    const fields: Record<string, string> = {}
+    options.forEach((value, key) => {
+        if (typeof value === 'string' && value) fields[key] = value
+    })
+    return fields as T
+}
+
+export async function signIn(options?: SignInOptions | FormData) {
+    const params = toOptions(options)
+    // the API route configures the package when it is first loaded -- until
+    // then it runs the login
+    if (!isConfigured) {
+        const apiRoute = process.env.HELLO_API_ROUTE || '/api/hellocoop'
+        const query = new URLSearchParams({ op: 'login', ...params })
+        redirect(`${apiRoute}?${query}`)
+    }
+    const { helloReq, helloRes } = await cookieStoreContext()
+    const redirect_uri =
+        configuration.redirectURI ||
+        getRequestOrigin(helloReq) + configuration.apiRoute
+    const result = await createLoginURL({ ...params, redirect_uri })
+    if ('error' in result) throw new Error(result.error_description)
+    const oidc = (await decryptObj(result.state, configuration.secrets)) as
+        | OIDC
+        | undefined
+    if (!oidc) throw new Error('Failed to decrypt state data')
+    await saveOidc(helloReq, helloRes, oidc)
+    redirect(result.url)
+}
+
+export async function signOut(options?: SignOutOptions | FormData) {
+    const { target_uri } = toOptions(options)
+    const { helloReq, helloRes } = await cookieStoreContext()
+    await destroyAuthSession(helloReq)
+    helloRes.clearAuth()
+    if (configuration.logoutSync) {
+        const e = await helloReq.logoutSyncWrapper(configuration.logoutSync)
+        if (e) console.log(new Error('logoutSync faulted'), e)
+    }
+    const ourURL = configuration.redirectURI || getRequestOrigin(helloReq)
+    redirect(
+        safeTargetURI(target_uri, ourURL) ||
+            configuration.routes.loggedOut ||
+            '/',
+    )
+}
+
+// returns the updated Auth, or null when not logged in -- claims that are
+// not editable are ignored
+export async function updateSession(
+    changes: SessionChanges,
+): Promise<Auth | null> {
+    return updateAuth(changes)
+}
@@ -51,9 +51,26 @@ type InternalResponse = {
     redirect?: string
 }
 
+// the app router passes the POST body as a stream -- parse form and JSON bodies
+const parseBody = async (req: NextRequest): Promise<any> => {
+    if (req.method !== 'POST') return undefined
+    const contentType = req.headers.get('content-type') || ''
+    try {
+        if (contentType.includes('application/json')) return await req.json()
+        if (contentType.includes('application/x-www-form-urlencoded'))
+            return Object.fromEntries(
+                new URLSearchParams(await req.text()).entries(),
+            )
+    } catch (e) {
+        console.error('could not parse POST body', e)
+    }
+    return {}
+}
+
 const convertToHelloRequest = (
     req: NextRequest,
     res: InternalResponse,
+    body: any,
 ): HelloRequest => {
     return {
         headers: () => {
@@ -66,12 +83,12 @@ const convertToHelloRequest = (
             req.auth = auth
         },
         method: req.method,
-        body: req.body,
+        body,
         loginSyncWrapper: (loginSync, params) => {
             return loginSync({ ...params, req, res })
         },
-        logoutSyncWrapper: (logoutSync) => {
-            return logoutSync({ req, res })
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, req, res })
         },
         frameWork: 'nextjs',
     }
@@ -123,7 +140,11 @@ const appAuthHandler = (config: Config): HandlerFunction => {
             status: 200,
             headers: new Headers(),
         }
-        const helloReq = convertToHelloRequest(req, internalResponse)
+        const helloReq = convertToHelloRequest(
+            req,
+            internalResponse,
+            await parseBody(req),
+        )
         const helloRes = convertToHelloResponse(internalResponse)
         await router(helloReq, helloRes)
         if (internalResponse.redirect) {
@@ -150,6 +171,7 @@ const appAuthHandler = (config: Config): HandlerFunction => {
         }
         if (internalResponse.json)
             return NextResponse.json(internalResponse.json, {
+                status: internalResponse.status,
                 headers: internalResponse.headers,
             })
 
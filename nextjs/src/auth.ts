@@ -1,7 +1,20 @@
 import { Auth, NotLoggedIn } from '@hellocoop/definitions'
-import { configuration, PackageMetadata } from '@hellocoop/api'
-import { cookies } from 'next/headers'
-import { decryptObj } from '@hellocoop/helper-server'
+import {
+    AuthUpdates,
+    clearAuthCookieParams,
+    configuration,
+    getAuthfromCookies,
+    getReauthURL,
+    isRecentAuth,
+    HelloRequest,
+    HelloResponse,
+    PackageMetadata,
+    updateAuth as apiUpdateAuth,
+} from '@hellocoop/api'
+import { SerializeOptions } from 'cookie'
+import { cookies, headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import { AUTH_HEADER, readAuthHeader } from './middleware'
 
 // set name and version to provide in metadata
 import parentPackageJson from '../package.json'
@@ -12,15 +25,96 @@ PackageMetadata.setMetadata(name, version)
 // import { unstable_cache } from 'next/cache';
 // https://nextjs.org/docs/app/api-reference/functions/unstable_cache
 
+// the Bearer token or cookie checks the API route makes -- expiry and
+// back-channel logout included. Cookies can't be set while rendering a
+// server component, so the cookie is not renewed here.
 export const auth = async function (): Promise<Auth> {
     if (!configuration.secret) return NotLoggedIn
-    const cookieStore = await cookies()
-    const authCookie = cookieStore.get(configuration.cookies.authName)?.value
-    if (!authCookie) return NotLoggedIn
-    const a = (await decryptObj(
-        authCookie,
-        configuration.secret as string,
-    )) as Auth
-    if (!a) return NotLoggedIn
+    const { helloReq } = await cookieStoreContext()
+    return getAuthfromCookies(helloReq)
+}
+
+// the Auth helloMiddleware forwarded, without reading the cookie again --
+// NotLoggedIn on routes the middleware does not run on
+export const middlewareAuth = async function (): Promise<Auth> {
+    return readAuthHeader((await headers()).get(AUTH_HEADER))
+}
+
+// step-up for server components and server actions -- redirects to
+// re-authenticate at Hellō unless the user authenticated in the last
+// `seconds`, then returns to target_uri
+export const requireRecentAuth = async function (
+    seconds: number,
+    target_uri: string = configuration.routes.loggedIn || '/',
+): Promise<Auth> {
+    const a = await auth()
+    if (!isRecentAuth(a, seconds)) redirect(getReauthURL(seconds, target_uri))
     return a
 }
+
+// a HelloRequest and HelloResponse over next/headers, for calling the api
+// outside of the API route -- from server actions and route handlers
+export const cookieStoreContext = async function (): Promise<{
+    helloReq: HelloRequest
+    helloRes: HelloResponse
+}> {
+    const cookieStore = await cookies()
+    const headerStore = await headers()
+    const cookieHeader = cookieStore
+        .getAll()
+        .map(({ name, value }) => `${name}=${encodeURIComponent(value)}`)
+        .join('; ')
+    let auth: Auth | undefined
+    const helloReq: HelloRequest = {
+        headers: () => ({
+            ...Object.fromEntries(headerStore.entries()),
+            cookie: cookieHeader,
+        }),
+        path: configuration.apiRoute,
+        query: {},
+        method: 'GET',
+        body: undefined,
+        getAuth: () => auth,
+        setAuth: (a: Auth) => {
+            auth = a
+        },
+        loginSyncWrapper: (loginSync, params) => loginSync({ ...params }),
+        logoutSyncWrapper: (logoutSync, params) => logoutSync({ ...params }),
+        frameWork: 'nextjs',
+    }
+    // only cookies can be set -- a response body is the API route's job
+    const notAvailable = (): never => {
+        throw new Error('not available outside of the Hellō API route')
+    }
+    const setCookie = (
+        name: string,
+        value: string,
+        options: SerializeOptions,
+    ) => {
+        cookieStore.set(name, value, options)
+    }
+    const helloRes: HelloResponse = {
+        clearAuth: () => {
+            const { name, value, options } = clearAuthCookieParams()
+            setCookie(name, value, options)
+        },
+        setCookie,
+        send: notAvailable,
+        json: notAvailable,
+        redirect: notAvailable,
+        setHeader: notAvailable,
+        status: notAvailable,
+        getHeaders: notAvailable,
+    }
+    return { helloReq, helloRes }
+}
+
+// replace profile claims in the current session from a server action or
+// route handler, e.g. after the user edits their profile.
+// Cookies can not be set while rendering a server component.
+export const updateAuth = async function (
+    authUpdates: AuthUpdates,
+): Promise<Auth | null> {
+    const { helloReq, helloRes } = await cookieStoreContext()
+    return apiUpdateAuth(helloReq, helloRes, authUpdates)
+}
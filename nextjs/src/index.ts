@@ -10,5 +10,9 @@ export type { Auth } from '@hellocoop/definitions'
 export { getAuth, getServerSideProps, pageAuth, pagesAuth } from './pages'
 // app router functions
 export { appAuth } from './app'
-export { auth } from './auth'
+export { auth, middlewareAuth, requireRecentAuth, updateAuth } from './auth'
+export { signIn, signOut, updateSession } from './actions'
+export type { SessionChanges, SignInOptions, SignOutOptions } from './actions'
+export { helloMiddleware } from './middleware'
+export type { HelloMiddlewareOptions } from './middleware'
 export * from '@hellocoop/react'
@@ -0,0 +1,123 @@
+// middleware.ts helper -- reads the auth cookie at the edge, sends logged
+// out users of protected routes to log in, and forwards Auth to server
+// components in a request header, encrypted with the cookie secret
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Auth, NotLoggedIn } from '@hellocoop/definitions'
+import {
+    Config,
+    configuration,
+    configure,
+    isConfigured,
+    isSessionExpired,
+} from '@hellocoop/api'
+import { decryptObj, encryptObj } from '@hellocoop/helper-server'
+
+// set by helloMiddleware on every request it sees, read by middlewareAuth
+export const AUTH_HEADER = 'x-hellocoop-auth'
+
+export type HelloMiddlewareOptions = {
+    protect?: string[] // route patterns that require login, e.g. '/dashboard/:path*'
+    public?: string[] // never protected, even if they match protect
+    loginRedirect?: string // defaults to the login op of the API route
+    config?: Config // hello.config -- for sessionMaxAge and sessionIdleTimeout
+}
+
+// Next.js matcher patterns -- ':name' is one segment, ':name*' zero or
+// more, ':name+' one or more, ':name?' zero or one
+export const patternToRegExp = (pattern: string): RegExp => {
+    const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    let source = ''
+    let last = 0
+    for (const match of pattern.matchAll(/\/:\w+([*+?]?)/g)) {
+        source += escape(pattern.slice(last, match.index))
+        source += {
+            '*': '(?:/.*)?',
+            '+': '/.+',
+            '?': '(?:/[^/]+)?',
+            '': '/[^/]+',
+        }[match[1]]
+        last = (match.index || 0) + match[0].length
+    }
+    source += escape(pattern.slice(last))
+    return new RegExp(`^${source}/?$`)
+}
+
+const matches = (patterns: RegExp[], pathname: string) =>
+    patterns.some((pattern) => pattern.test(pathname))
+
+// a sessionStore session id -- 32 random bytes, shorter than any encrypted
+// Auth
+const SESSION_ID = /^[\w-]{43}$/
+
+// the Auth in the cookie -- a sessionStore can't be reached from the edge,
+// so only cookies that carry the encrypted Auth are read. Without the
+// secret, or with session ids, every protected route would redirect to
+// login and back forever, so those throw instead.
+const getCookieAuth = async (request: NextRequest): Promise<Auth> => {
+    if (!configuration.secret)
+        throw new Error('helloMiddleware: HELLO_COOKIE_SECRET is not set')
+    const authCookie = request.cookies.get(configuration.cookies.authName)
+    if (!authCookie?.value) return NotLoggedIn
+    if (SESSION_ID.test(authCookie.value))
+        throw new Error(
+            'helloMiddleware: the auth cookie is a sessionStore session id, which can not be read in middleware',
+        )
+    const auth = (await decryptObj(
+        authCookie.value,
+        configuration.secrets,
+    )) as Auth | null
+    if (!auth || isSessionExpired(auth)) return NotLoggedIn
+    return auth
+}
+
+// the Auth helloMiddleware forwarded -- a header a client sent on a route
+// the middleware does not run on can't be decrypted and is ignored
+export const readAuthHeader = async (header: string | null): Promise<Auth> => {
+    if (!header) return NotLoggedIn
+    const auth = (await decryptObj(
+        header,
+        configuration.secrets,
+    )) as Auth | null
+    return auth?.isLoggedIn ? auth : NotLoggedIn
+}
+
+export const helloMiddleware = (options: HelloMiddlewareOptions = {}) => {
+    if (options.config && !isConfigured) configure(options.config)
+    if (configuration.sessionStore)
+        throw new Error(
+            'helloMiddleware can not read sessions from a sessionStore',
+        )
+    const protect = (options.protect || []).map(patternToRegExp)
+    const publicRoutes = (options.public || []).map(patternToRegExp)
+    const apiRoute = options.config
+        ? configuration.apiRoute
+        : process.env.HELLO_API_ROUTE || '/api/hellocoop'
+    const loginRedirect = options.loginRedirect || apiRoute + '?op=login'
+
+    return async (request: NextRequest): Promise<NextResponse> => {
+        const { pathname, search } = request.nextUrl
+        const auth =
+            pathname === apiRoute ? NotLoggedIn : await getCookieAuth(request)
+
+        if (
+            !auth.isLoggedIn &&
+            matches(protect, pathname) &&
+            !matches(publicRoutes, pathname)
+        ) {
+            const url = new URL(loginRedirect, request.url)
+            url.searchParams.set('target_uri', pathname + search)
+            return NextResponse.redirect(url)
+        }
+
+        // a client can't pass its own Auth header through
+        const headers = new Headers(request.headers)
+        headers.delete(AUTH_HEADER)
+        if (auth.isLoggedIn)
+            headers.set(
+                AUTH_HEADER,
+                await encryptObj(auth, configuration.secret as string),
+            )
+        return NextResponse.next({ request: { headers } })
+    }
+}
@@ -49,8 +49,8 @@ const convertToHelloRequest = (
         loginSyncWrapper: (loginSync, params) => {
             return loginSync({ ...params, req, res })
         },
-        logoutSyncWrapper: (logoutSync) => {
-            return logoutSync({ req, res })
+        logoutSyncWrapper: (logoutSync, params) => {
+            return logoutSync({ ...params, req, res })
         },
     }
 }
@@ -0,0 +1,61 @@
+// Tests for auth() in server components
+// next/headers only works while Next.js renders a request, so it is
+// replaced with cookies() and headers() over the cookie a test sets
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import Module, { createRequire } from 'node:module'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+import { configure, createMemoryLogoutList } from '@hellocoop/api'
+
+type Load = (request: string, ...args: unknown[]) => unknown
+const loader = Module as unknown as { _load: Load }
+
+const SECRET = process.env.HELLO_COOKIE_SECRET as string
+const NOW = Math.floor(Date.now() / 1000)
+
+let authCookie = ''
+const nextHeaders = {
+    cookies: async () => ({
+        getAll: () =>
+            authCookie ? [{ name: 'hellocoop_auth', value: authCookie }] : [],
+        set: () => {},
+    }),
+    headers: async () => new Headers(),
+}
+
+const load = loader._load
+loader._load = function (this: unknown, request, ...args) {
+    if (request === 'next/headers') return nextHeaders
+    return load.call(this, request, ...args)
+}
+const { auth } = createRequire(__filename)('../src/auth.js') as {
+    auth: () => Promise<Auth>
+}
+loader._load = load
+
+const logoutList = createMemoryLogoutList()
+configure({ client_id: 'test-client-id', logoutList })
+
+const signedIn = async (session: Auth) => {
+    authCookie = await encryptObj(session, SECRET)
+    return auth()
+}
+
+test('auth() reads the auth cookie', async () => {
+    const session: Auth = { isLoggedIn: true, sub: 'user-1', iat: NOW }
+    assert.deepStrictEqual(await signedIn(session), session)
+    authCookie = ''
+    assert.strictEqual((await auth()).isLoggedIn, false)
+})
+
+test('auth() ends sessions from before a back-channel logout', async () => {
+    await logoutList.add('sub:user-2', NOW)
+    const before: Auth = { isLoggedIn: true, sub: 'user-2', iat: NOW - 60 }
+    assert.strictEqual((await signedIn(before)).isLoggedIn, false)
+    const after: Auth = { isLoggedIn: true, sub: 'user-2', iat: NOW + 1 }
+    assert.ok((await signedIn(after)).isLoggedIn)
+})
@@ -0,0 +1,72 @@
+// Tests that helloMiddleware loads in the edge runtime
+// Next.js edge builds replace the crypto module with a stub that throws
+// when any property is read -- the middleware and the packages it loads are
+// required again with that stub in place. jose ships its own edge build,
+// so only our packages get the stub.
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import Module, { createRequire } from 'node:module'
+import { NextRequest } from 'next/server'
+import { Auth } from '@hellocoop/definitions'
+
+type Load = (request: string, parent?: { filename?: string }) => unknown
+const loader = Module as unknown as { _load: Load }
+
+const stub = new Proxy(
+    {},
+    {
+        get: () => {
+            throw new Error(
+                'The edge runtime does not support Node.js crypto module',
+            )
+        },
+    },
+)
+
+const isOurs = (filename = '') => !filename.includes('/node_modules/')
+
+test('helloMiddleware loads and runs with the edge crypto stub', async (t) => {
+    const edgeRequire = createRequire(__filename)
+    const saved = { ...edgeRequire.cache }
+    for (const key of Object.keys(edgeRequire.cache))
+        if (isOurs(key)) delete edgeRequire.cache[key]
+    const load = loader._load
+    loader._load = function (this: unknown, request, parent, ...args) {
+        if (
+            (request === 'crypto' || request === 'node:crypto') &&
+            isOurs(parent?.filename)
+        )
+            return stub
+        return load.call(this, request, parent, ...args)
+    } as Load
+    const edge = globalThis as { EdgeRuntime?: string }
+    edge.EdgeRuntime = 'edge-runtime'
+    t.after(() => {
+        loader._load = load
+        delete edge.EdgeRuntime
+        for (const key of Object.keys(edgeRequire.cache))
+            delete edgeRequire.cache[key]
+        Object.assign(edgeRequire.cache, saved)
+    })
+
+    const { helloMiddleware } = edgeRequire('../src/middleware.js')
+    const { encryptObj } = edgeRequire('@hellocoop/helper-server')
+    const middleware = helloMiddleware({ protect: ['/dashboard/:path*'] })
+    const auth: Auth = {
+        isLoggedIn: true,
+        sub: 'user-123',
+        iat: Math.floor(Date.now() / 1000),
+    }
+    const cookie = await encryptObj(auth, process.env.HELLO_COOKIE_SECRET)
+    const request = (headers = {}) =>
+        new NextRequest('https://rp.example.com/dashboard', { headers })
+
+    assert.strictEqual((await middleware(request())).status, 307)
+    const response = await middleware(
+        request({ cookie: `hellocoop_auth=${cookie}` }),
+    )
+    assert.strictEqual(response.headers.get('location'), null)
+})
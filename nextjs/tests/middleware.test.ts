@@ -0,0 +1,127 @@
+// Tests for helloMiddleware
+// runs the middleware on NextRequests and reads the redirect or the request
+// headers NextResponse.next() forwards
+
+import './setup.js'
+
+import { test } from 'node:test'
+import assert from 'node:assert'
+import { NextRequest } from 'next/server'
+import { Auth } from '@hellocoop/definitions'
+import { encryptObj } from '@hellocoop/helper-server'
+
+import {
+    AUTH_HEADER,
+    helloMiddleware,
+    patternToRegExp,
+    readAuthHeader,
+} from '../src/middleware.js'
+
+const ORIGIN = 'https://rp.example.com'
+const SECRET = process.env.HELLO_COOKIE_SECRET as string
+const NOW = Math.floor(Date.now() / 1000)
+const AUTH: Auth = { isLoggedIn: true, sub: 'user-123', iat: NOW }
+
+// NextResponse.next() forwards request headers as x-middleware-request-*
+const FORWARDED_AUTH = `x-middleware-request-${AUTH_HEADER}`
+
+const request = (path: string, headers: Record<string, string> = {}) =>
+    new NextRequest(ORIGIN + path, { headers })
+
+const cookie = async (auth: object) =>
+    `hellocoop_auth=${await encryptObj(auth, SECRET)}`
+
+const middleware = helloMiddleware({
+    protect: ['/dashboard/:path*'],
+    public: ['/dashboard/about'],
+})
+
+test('patternToRegExp matches Next.js matcher patterns', () => {
+    const cases: [string, string, boolean][] = [
+        ['/dashboard/:path*', '/dashboard', true],
+        ['/dashboard/:path*', '/dashboard/a/b', true],
+        ['/dashboard/:path*', '/dashboard-evil', false],
+        ['/users/:id', '/users/1', true],
+        ['/users/:id', '/users/1/edit', false],
+        ['/users/:id', '/users', false],
+        ['/docs/:path+', '/docs', false],
+        ['/docs/:path+', '/docs/a/b', true],
+        ['/blog/:slug?', '/blog', true],
+        ['/blog/:slug?', '/blog/post', true],
+        ['/blog/:slug?', '/blog/post/more', false],
+        ['/a.b', '/aXb', false],
+    ]
+    for (const [pattern, pathname, expected] of cases)
+        assert.strictEqual(
+            patternToRegExp(pattern).test(pathname),
+            expected,
+            `${pattern} ${pathname}`,
+        )
+})
+
+test('logged out users of a protected route are sent to login', async () => {
+    const response = await middleware(request('/dashboard/settings?tab=1'))
+    assert.strictEqual(response.status, 307)
+    const location = new URL(response.headers.get('location') || '')
+    assert.strictEqual(location.pathname, '/api/hellocoop')
+    assert.strictEqual(location.searchParams.get('op'), 'login')
+    assert.strictEqual(
+        location.searchParams.get('target_uri'),
+        '/dashboard/settings?tab=1',
+    )
+})
+
+test('public and unprotected routes are not redirected', async () => {
+    for (const path of ['/dashboard/about', '/', '/api/hellocoop']) {
+        const response = await middleware(request(path))
+        assert.strictEqual(response.headers.get('location'), null, path)
+    }
+})
+
+test('logged in users get through with the Auth forwarded', async () => {
+    const response = await middleware(
+        request('/dashboard', { cookie: await cookie(AUTH) }),
+    )
+    assert.strictEqual(response.headers.get('location'), null)
+    const forwarded = response.headers.get(FORWARDED_AUTH)
+    assert.notStrictEqual(forwarded, JSON.stringify(AUTH))
+    assert.deepStrictEqual(await readAuthHeader(forwarded), AUTH)
+})
+
+test('an Auth header from the client is removed', async () => {
+    const spoofed = encodeURIComponent(JSON.stringify(AUTH))
+    const response = await middleware(request('/', { [AUTH_HEADER]: spoofed }))
+    assert.strictEqual(response.headers.get(FORWARDED_AUTH), null)
+})
+
+test('an Auth header the middleware did not encrypt is ignored', async () => {
+    for (const header of [
+        JSON.stringify(AUTH),
+        encodeURIComponent(JSON.stringify(AUTH)),
+        'not-encrypted',
+    ])
+        assert.deepStrictEqual(await readAuthHeader(header), {
+            isLoggedIn: false,
+        })
+})
+
+test('a sessionStore session id fails loudly instead of looping', async () => {
+    const sid = 'a'.repeat(43)
+    await assert.rejects(
+        middleware(request('/dashboard', { cookie: `hellocoop_auth=${sid}` })),
+        /sessionStore/,
+    )
+})
+
+test('the session lifetime in config is applied', async () => {
+    const configured = helloMiddleware({
+        protect: ['/dashboard/:path*'],
+        config: { client_id: 'test-client-id', sessionMaxAge: 60 },
+    })
+    const response = await configured(
+        request('/dashboard', {
+            cookie: await cookie({ ...AUTH, iat: NOW - 120 }),
+        }),
+    )
+    assert.strictEqual(response.status, 307)
+})
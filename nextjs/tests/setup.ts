@@ -0,0 +1,7 @@
+// imported first so env is set before @hellocoop/api reads process.env
+// at module load
+
+process.env.HELLO_COOKIE_SECRET =
+    '66c71f55568f7b0c3b30cb6a8df9975b5125000caa775240b2e76eb96c43715e'
+
+export {}